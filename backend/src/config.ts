@@ -0,0 +1,312 @@
+import { LLMTask } from './services/llmProvider'
+import { DEFAULT_RESILIENCE, ResilienceConfig } from './services/resilience'
+import { BudgetAction, DEFAULT_LLM_PRICES, DEFAULT_SEARCH_CREDIT_PRICES, TokenPrice } from './services/usage'
+
+export interface SearchConfig {
+  providers: string[]
+  serperApiKey?: string
+  tavilyApiKey?: string
+  askNewsClientId?: string
+  askNewsClientSecret?: string
+}
+
+export interface LLMConfig {
+  provider: string
+  apiKey?: string
+  baseUrl?: string
+  jsonMode: boolean
+  models: Record<LLMTask, string>
+}
+
+export type ProviderMode = 'live' | 'record' | 'replay'
+
+export interface CacheConfig {
+  // Hours an analysis is served from the cache
+  ttlHours: number
+  // Shorter lifetime for analyses with a claim about a recent or ongoing event
+  timeSensitiveTtlHours: number
+  // Consider earlier analyses of texts at least this similar (0-1); 0, the default, matches exact texts only
+  similarityThreshold: number
+  // Minutes between sweeps that delete expired cache entries and other stale rows
+  sweepIntervalMinutes: number
+}
+
+export interface AccessConfig {
+  // Refuse requests that do not send an API key
+  requireApiKey: boolean
+  // Limits of API keys that do not set their own
+  keyRateLimitPerMinute: number
+  keyDailyQuota: number
+  // Limits of requests without an API key, per client IP
+  ipRateLimitPerMinute: number
+  ipDailyQuota: number
+  // Origins allowed to call the API from a browser; '*' allows any
+  corsOrigins: string[]
+  // Express "trust proxy" setting, so client IPs are read from X-Forwarded-For behind a reverse proxy
+  trustProxy: boolean | number
+}
+
+export interface UsageConfig {
+  // USD per million prompt and completion tokens, by model
+  llmPrices: Record<string, TokenPrice>
+  // USD per search credit, by provider
+  searchCreditPrices: Record<string, number>
+  // Estimated spend per UTC day after which analyses are refused or downgraded, unlimited when unset
+  dailyBudgetUsd?: number
+  budgetAction: BudgetAction
+}
+
+export interface AppConfig {
+  port: number
+  databasePath: string
+  // Apply pending database migrations at startup, or refuse to start while any are pending
+  migrateOnStartup: boolean
+  // live: call real APIs, record: call real APIs and save fixtures, replay: serve fixtures only
+  providerMode: ProviderMode
+  fixturesDir: string
+  search: SearchConfig
+  llm: LLMConfig
+  // Limits for fetching articles submitted by URL
+  articleFetch: {
+    timeoutMs: number
+    maxBytes: number
+    maxRedirects: number
+  }
+  // Fetch top source pages and categorize from their most relevant passages
+  deepEvidence: {
+    enabled: boolean
+    maxSources: number
+    timeoutMs: number
+    pageCacheTtlHours: number
+  }
+  // Timeouts, retries and circuit breaking for search and LLM calls
+  resilience: {
+    search: ResilienceConfig
+    llm: ResilienceConfig
+  }
+  // Cache lifetimes, paraphrase matching and cleanup
+  cache: CacheConfig
+  // API keys, rate limits, daily quotas and CORS
+  access: AccessConfig
+  // Prices and daily budget for provider calls
+  usage: UsageConfig
+  // Number of asynchronous analysis jobs run at the same time
+  jobConcurrency: number
+  // Token for /admin endpoints, admin endpoints are disabled when unset
+  adminToken?: string
+}
+
+/**
+ * Split a comma-separated env value into trimmed, lowercased entries
+ */
+function parseList(value: string | undefined, fallback: string[]): string[] {
+  if (!value) return fallback
+  const items = value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean)
+  return items.length > 0 ? items : fallback
+}
+
+const DEFAULT_LLM_MODELS: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+}
+
+/**
+ * Resolve the model for each LLM task
+ * LLM_MODEL_<TASK> overrides LLM_MODEL, which overrides the provider default
+ */
+function loadLLMModels(env: NodeJS.ProcessEnv, provider: string): Record<LLMTask, string> {
+  const defaultModel = env.LLM_MODEL || DEFAULT_LLM_MODELS[provider] || DEFAULT_LLM_MODELS.openai
+  const forTask = (key: string) => env[`LLM_MODEL_${key}`] || defaultModel
+
+  return {
+    extraction: forTask('EXTRACTION'),
+    categorization: forTask('CATEGORIZATION'),
+    summary: forTask('SUMMARY'),
+    translation: forTask('TRANSLATION'),
+    languageDetection: forTask('LANGUAGE_DETECTION'),
+  }
+}
+
+/**
+ * Resilience settings shared by search and LLM calls, with their own timeouts
+ */
+function loadResilience(env: NodeJS.ProcessEnv, timeoutMs: string | undefined, defaultTimeoutMs: number): ResilienceConfig {
+  const int = (value: string | undefined, fallback: number) => {
+    const parsed = parseInt(value || '', 10)
+    return isNaN(parsed) || parsed < 0 ? fallback : parsed
+  }
+
+  return {
+    ...DEFAULT_RESILIENCE,
+    timeoutMs: int(timeoutMs, defaultTimeoutMs) || defaultTimeoutMs,
+    maxRetries: int(env.PROVIDER_MAX_RETRIES, DEFAULT_RESILIENCE.maxRetries),
+    breakerThreshold: int(env.CIRCUIT_BREAKER_THRESHOLD, DEFAULT_RESILIENCE.breakerThreshold) || DEFAULT_RESILIENCE.breakerThreshold,
+    breakerCooldownMs: int(env.CIRCUIT_BREAKER_COOLDOWN_MS, DEFAULT_RESILIENCE.breakerCooldownMs),
+  }
+}
+
+/**
+ * Cache lifetimes and matching; lifetimes apply to entries already stored
+ */
+function loadCache(env: NodeJS.ProcessEnv): CacheConfig {
+  const positive = (name: string, fallback: number) => {
+    const value = env[name]
+    if (value === undefined || value === '') return fallback
+    const number = Number(value)
+    if (isNaN(number) || number <= 0) {
+      throw new Error(`Invalid ${name} "${value}". Expected a positive number`)
+    }
+    return number
+  }
+
+  const ttlHours = positive('CACHE_TTL_HOURS', 7 * 24)
+  const threshold = env.SEMANTIC_CACHE_THRESHOLD
+  const similarityThreshold = threshold === undefined || threshold === '' ? 0 : Number(threshold)
+  if (isNaN(similarityThreshold) || similarityThreshold < 0 || similarityThreshold > 1) {
+    throw new Error(`Invalid SEMANTIC_CACHE_THRESHOLD "${threshold}". Expected a number from 0 to 1`)
+  }
+
+  return {
+    ttlHours,
+    // Never longer than the standard lifetime
+    timeSensitiveTtlHours: Math.min(positive('CACHE_TTL_TIME_SENSITIVE_HOURS', 24), ttlHours),
+    similarityThreshold,
+    sweepIntervalMinutes: positive('CACHE_SWEEP_INTERVAL_MINUTES', 60),
+  }
+}
+
+/**
+ * API access limits; a limit of 0 turns it off
+ */
+function loadAccess(env: NodeJS.ProcessEnv): AccessConfig {
+  const limit = (name: string, fallback: number) => {
+    const value = env[name]
+    if (value === undefined || value === '') return fallback
+    const parsed = Number(value)
+    if (!Number.isInteger(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a whole number, 0 for no limit`)
+    }
+    return parsed
+  }
+
+  const trustProxy = (env.TRUST_PROXY || '').trim().toLowerCase()
+
+  return {
+    requireApiKey: env.REQUIRE_API_KEY === 'true',
+    keyRateLimitPerMinute: limit('API_KEY_RATE_LIMIT', 60),
+    keyDailyQuota: limit('API_KEY_DAILY_QUOTA', 1000),
+    ipRateLimitPerMinute: limit('IP_RATE_LIMIT', 20),
+    ipDailyQuota: limit('IP_DAILY_QUOTA', 50),
+    // Browsers send origins without a trailing slash
+    corsOrigins: parseList(env.CORS_ORIGINS, ['http://localhost:5173']).map(origin => origin.replace(/\/+$/, '')),
+    trustProxy: /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy === 'true',
+  }
+}
+
+/**
+ * Parse "name=price" pairs separated by commas
+ * LLM prices are written as input/output per million tokens, e.g. gpt-4o-mini=0.15/0.6
+ */
+function parsePrices(name: string, value: string | undefined): Record<string, string> {
+  const prices: Record<string, string> = {}
+  for (const entry of (value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf('=')
+    if (separator <= 0) {
+      throw new Error(`Invalid ${name} entry "${entry}". Expected name=price`)
+    }
+    prices[entry.substring(0, separator).trim()] = entry.substring(separator + 1).trim()
+  }
+  return prices
+}
+
+function parsePrice(name: string, value: string): number {
+  const price = Number(value)
+  if (value === '' || isNaN(price) || price < 0) {
+    throw new Error(`Invalid price "${value}" in ${name}`)
+  }
+  return price
+}
+
+/**
+ * Prices and budget for provider calls
+ * LLM_PRICES and SEARCH_CREDIT_PRICES add to or override the default prices
+ */
+function loadUsage(env: NodeJS.ProcessEnv): UsageConfig {
+  const llmPrices = { ...DEFAULT_LLM_PRICES }
+  for (const [model, price] of Object.entries(parsePrices('LLM_PRICES', env.LLM_PRICES))) {
+    const [input, output] = price.split('/')
+    llmPrices[model] = { input: parsePrice('LLM_PRICES', input), output: parsePrice('LLM_PRICES', output ?? '') }
+  }
+
+  const searchCreditPrices = { ...DEFAULT_SEARCH_CREDIT_PRICES }
+  for (const [provider, price] of Object.entries(parsePrices('SEARCH_CREDIT_PRICES', env.SEARCH_CREDIT_PRICES))) {
+    searchCreditPrices[provider.toLowerCase()] = parsePrice('SEARCH_CREDIT_PRICES', price)
+  }
+
+  const budgetAction = (env.BUDGET_ACTION || 'refuse').trim().toLowerCase()
+  if (budgetAction !== 'refuse' && budgetAction !== 'downgrade') {
+    throw new Error(`Unknown BUDGET_ACTION "${budgetAction}". Supported actions: refuse, downgrade`)
+  }
+
+  return {
+    llmPrices,
+    searchCreditPrices,
+    dailyBudgetUsd: env.DAILY_BUDGET_USD ? parsePrice('DAILY_BUDGET_USD', env.DAILY_BUDGET_USD) : undefined,
+    budgetAction,
+  }
+}
+
+/**
+ * Read configuration from environment variables
+ * Call after dotenv has loaded the .env file
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const llmProvider = (env.LLM_PROVIDER || 'openai').trim().toLowerCase()
+  const providerMode = (env.PROVIDER_MODE || 'live').trim().toLowerCase()
+  if (!['live', 'record', 'replay'].includes(providerMode)) {
+    throw new Error(`Unknown PROVIDER_MODE "${providerMode}". Supported modes: live, record, replay`)
+  }
+
+  return {
+    port: parseInt(env.PORT || '3001', 10),
+    databasePath: env.DATABASE_PATH || './truthmeter.db',
+    migrateOnStartup: env.MIGRATE_ON_STARTUP !== 'false',
+    providerMode: providerMode as ProviderMode,
+    fixturesDir: env.FIXTURES_DIR || './fixtures',
+    search: {
+      providers: parseList(env.SEARCH_PROVIDERS, ['serper']),
+      serperApiKey: env.SERPER_API_KEY,
+      tavilyApiKey: env.TAVILY_API_KEY,
+      askNewsClientId: env.ASKNEWS_CLIENT_ID,
+      askNewsClientSecret: env.ASKNEWS_CLIENT_SECRET,
+    },
+    llm: {
+      provider: llmProvider,
+      // OPENAI_API_KEY keeps working for the default OpenAI setup
+      apiKey: env.LLM_API_KEY || (llmProvider === 'openai' ? env.OPENAI_API_KEY : undefined),
+      baseUrl: env.LLM_BASE_URL || undefined,
+      jsonMode: env.LLM_JSON_MODE !== 'false',
+      models: loadLLMModels(env, llmProvider),
+    },
+    articleFetch: {
+      timeoutMs: parseInt(env.ARTICLE_FETCH_TIMEOUT_MS || '10000', 10),
+      maxBytes: parseInt(env.ARTICLE_MAX_BYTES || String(2 * 1024 * 1024), 10),
+      maxRedirects: parseInt(env.ARTICLE_MAX_REDIRECTS || '3', 10),
+    },
+    deepEvidence: {
+      enabled: env.DEEP_EVIDENCE === 'true',
+      maxSources: parseInt(env.DEEP_EVIDENCE_SOURCES || '10', 10),
+      timeoutMs: parseInt(env.DEEP_EVIDENCE_TIMEOUT_MS || '5000', 10),
+      pageCacheTtlHours: parseInt(env.PAGE_CACHE_TTL_HOURS || '24', 10),
+    },
+    resilience: {
+      search: loadResilience(env, env.SEARCH_TIMEOUT_MS, 15000),
+      llm: loadResilience(env, env.LLM_TIMEOUT_MS, 60000),
+    },
+    cache: loadCache(env),
+    access: loadAccess(env),
+    usage: loadUsage(env),
+    jobConcurrency: Math.max(1, parseInt(env.JOB_CONCURRENCY || '2', 10) || 2),
+    adminToken: env.ADMIN_TOKEN || undefined,
+  }
+}
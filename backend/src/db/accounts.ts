@@ -0,0 +1,130 @@
+import crypto from 'crypto'
+import { promisify } from 'util'
+import Database from 'better-sqlite3'
+import { v4 as uuidv4 } from 'uuid'
+import { Session, User } from '../types'
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+const SESSION_DAYS = 30
+const KEY_LENGTH = 64
+
+/**
+ * Registration was refused because the email already has an account
+ */
+export class EmailTakenError extends Error {
+  constructor(email: string) {
+    super(`An account with ${email} already exists`)
+    this.name = 'EmailTakenError'
+  }
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16)
+  const hash = await scrypt(password, salt, KEY_LENGTH)
+  return `${salt.toString('hex')}:${hash.toString('hex')}`
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':')
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scrypt(password, Buffer.from(salt, 'hex'), expected.length)
+  return crypto.timingSafeEqual(actual, expected)
+}
+
+/**
+ * User accounts and their login sessions
+ * Passwords are hashed with scrypt; session tokens are random, so only a SHA-256 hash of them is stored
+ */
+export class AccountService {
+  private db: Database.Database
+
+  constructor(db: Database.Database) {
+    this.db = db
+  }
+
+  private mapUser(row: any): User {
+    return {
+      id: row.id,
+      email: row.email,
+      createdAt: row.created_at,
+    }
+  }
+
+  private createSession(user: User): Session {
+    const token = `tms_${crypto.randomBytes(32).toString('base64url')}`
+    const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+    this.db.prepare(`
+      INSERT INTO sessions (token_hash, user_id, expires_at)
+      VALUES (?, ?, ?)
+    `).run(hashToken(token), user.id, expiresAt)
+
+    return { token, expiresAt, user }
+  }
+
+  /**
+   * Create an account and log it in; email must already be validated and lowercased
+   */
+  async register(email: string, password: string): Promise<Session> {
+    const passwordHash = await hashPassword(password)
+    const id = uuidv4()
+
+    try {
+      this.db.prepare(`
+        INSERT INTO users (id, email, password_hash)
+        VALUES (?, ?, ?)
+      `).run(id, email, passwordHash)
+    } catch (error) {
+      if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE') throw new EmailTakenError(email)
+      throw error
+    }
+
+    const row = this.db.prepare('SELECT * FROM users WHERE id = ?').get(id)
+    return this.createSession(this.mapUser(row))
+  }
+
+  /**
+   * Start a session for matching credentials, or return null
+   */
+  async login(email: string, password: string): Promise<Session | null> {
+    const row = this.db.prepare('SELECT * FROM users WHERE email = ?').get(email) as any
+    if (!row) {
+      // Hash anyway so unknown emails take as long as wrong passwords
+      await hashPassword(password)
+      return null
+    }
+    if (!(await verifyPassword(password, row.password_hash))) return null
+
+    return this.createSession(this.mapUser(row))
+  }
+
+  /**
+   * The user of an unexpired session token
+   */
+  getSessionUser(token: string): User | null {
+    const row = this.db.prepare(`
+      SELECT users.* FROM sessions
+      JOIN users ON users.id = sessions.user_id
+      WHERE sessions.token_hash = ? AND sessions.expires_at > ?
+    `).get(hashToken(token), new Date().toISOString())
+
+    return row ? this.mapUser(row) : null
+  }
+
+  logout(token: string): void {
+    this.db.prepare('DELETE FROM sessions WHERE token_hash = ?').run(hashToken(token))
+  }
+
+  /**
+   * Remove sessions past their expiry
+   */
+  deleteExpiredSessions(): number {
+    const info = this.db.prepare('DELETE FROM sessions WHERE expires_at <= ?').run(new Date().toISOString())
+    return info.changes
+  }
+}
@@ -0,0 +1,134 @@
+import crypto from 'crypto'
+import Database from 'better-sqlite3'
+import { v4 as uuidv4 } from 'uuid'
+import { ApiKey, QuotaStatus } from '../types'
+
+const KEY_PREFIX = 'tm_'
+// Characters of the key kept in clear to tell keys apart
+const VISIBLE_CHARACTERS = 8
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+function today(): string {
+  return new Date().toISOString().substring(0, 10)
+}
+
+function nextUtcMidnight(): string {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)).toISOString()
+}
+
+/**
+ * API keys and the daily analysis quotas of keys and anonymous clients
+ * Keys are random, so a plain SHA-256 hash is enough to store them; the key itself is never saved
+ */
+export class ApiKeyService {
+  private db: Database.Database
+
+  constructor(db: Database.Database) {
+    this.db = db
+  }
+
+  private mapRow(row: any): ApiKey {
+    return {
+      id: row.id,
+      name: row.name,
+      prefix: row.prefix,
+      dailyQuota: row.daily_quota ?? undefined,
+      rateLimitPerMinute: row.rate_limit_per_minute ?? undefined,
+      createdAt: row.created_at,
+      lastUsedAt: row.last_used_at ?? undefined,
+      revokedAt: row.revoked_at ?? undefined,
+    }
+  }
+
+  /**
+   * Issue a new key; the returned key cannot be retrieved again
+   */
+  create(name: string, limits: { dailyQuota?: number; rateLimitPerMinute?: number } = {}): { key: string; apiKey: ApiKey } {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`
+    const id = uuidv4()
+
+    this.db.prepare(`
+      INSERT INTO api_keys (id, name, key_hash, prefix, daily_quota, rate_limit_per_minute)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(
+      id,
+      name,
+      hashKey(key),
+      key.substring(0, KEY_PREFIX.length + VISIBLE_CHARACTERS),
+      limits.dailyQuota ?? null,
+      limits.rateLimitPerMinute ?? null
+    )
+
+    return { key, apiKey: this.get(id)! }
+  }
+
+  get(id: string): ApiKey | null {
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id)
+    return row ? this.mapRow(row) : null
+  }
+
+  list(): ApiKey[] {
+    return this.db.prepare('SELECT * FROM api_keys ORDER BY created_at DESC').all().map(row => this.mapRow(row))
+  }
+
+  /**
+   * Find the active key matching a submitted key and note that it was used
+   */
+  verify(key: string): ApiKey | null {
+    const row = this.db.prepare(`
+      SELECT * FROM api_keys
+      WHERE key_hash = ? AND revoked_at IS NULL
+    `).get(hashKey(key)) as any
+    if (!row) return null
+
+    this.db.prepare('UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP WHERE id = ?').run(row.id)
+    return this.mapRow(row)
+  }
+
+  /**
+   * Revoke a key; returns false when no active key has this ID
+   */
+  revoke(id: string): boolean {
+    const info = this.db.prepare(`
+      UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP
+      WHERE id = ? AND revoked_at IS NULL
+    `).run(id)
+    return info.changes > 0
+  }
+
+  /**
+   * Count units analyses against a subject's quota for today
+   * Nothing is counted when the request would go over the limit
+   */
+  consumeQuota(subject: string, units: number, limit: number): QuotaStatus {
+    const day = today()
+    return this.db.transaction((): QuotaStatus => {
+      const row = this.db.prepare('SELECT count FROM quota_usage WHERE subject = ? AND day = ?').get(subject, day) as
+        | { count: number }
+        | undefined
+      const used = row?.count ?? 0
+
+      if (used + units > limit) {
+        return { allowed: false, limit, used, resetsAt: nextUtcMidnight() }
+      }
+
+      this.db.prepare(`
+        INSERT INTO quota_usage (subject, day, count) VALUES (?, ?, ?)
+        ON CONFLICT(subject, day) DO UPDATE SET count = count + excluded.count
+      `).run(subject, day, units)
+      return { allowed: true, limit, used: used + units, resetsAt: nextUtcMidnight() }
+    })()
+  }
+
+  /**
+   * Remove quota counters of past days
+   */
+  deleteOldQuotaUsage(): number {
+    const info = this.db.prepare('DELETE FROM quota_usage WHERE day < ?').run(today())
+    return info.changes
+  }
+}
@@ -1,32 +1,66 @@
 import Database from 'better-sqlite3'
-import { AnalysisResult, Source } from '../types'
+import { CacheConfig } from '../config'
+import { AnalysisResult, ClaimResult, DateRange, Source } from '../types'
+import { TextFingerprint, fingerprint, similarity, termsAgree } from '../utils/similarity'
 
+// Longer texts, such as fetched articles, are only matched exactly
+const MAX_SIMILAR_LENGTH = 500
+
+// Lifetime class of a cached analysis; time-sensitive analyses expire sooner
+type TtlClass = 'standard' | 'time_sensitive'
+
+interface IndexedText {
+  fingerprint: TextFingerprint
+  dateRange: string | null
+  createdAt: number
+  ttlClass: TtlClass
+}
+
+/**
+ * Analyses, served again for the same or a similar text until they expire
+ * Expiry is worked out from created_at and the configured lifetimes, so changing
+ * them applies to entries already stored
+ */
 export class CacheService {
   private db: Database.Database
+  private config: CacheConfig
+  // Fingerprints of cached short texts by analysis ID, built on the first similarity lookup
+  private similarityIndex: Map<string, IndexedText> | null = null
 
-  constructor(db: Database.Database) {
+  constructor(db: Database.Database, config: CacheConfig) {
     this.db = db
+    this.config = config
   }
 
-  private normalizeContentText(text: string): string {
-    return text.toLowerCase().trim().replace(/\s+/g, ' ')
+  private ttlClassOf(result: Omit<AnalysisResult, 'cached'>): TtlClass {
+    return result.claims.some(claim => claim.timeSensitive) ? 'time_sensitive' : 'standard'
   }
 
-  get(contentText: string): AnalysisResult | null {
-    const normalized = this.normalizeContentText(contentText)
+  private ttlMs(ttlClass: TtlClass): number {
+    const hours = ttlClass === 'time_sensitive' ? this.config.timeSensitiveTtlHours : this.config.ttlHours
+    return hours * 60 * 60 * 1000
+  }
 
-    const stmt = this.db.prepare(`
-      SELECT * FROM analyses
-      WHERE content_text_normalized = ?
-      AND datetime(created_at, '+7 days') > datetime('now')
-      ORDER BY created_at DESC
-      LIMIT 1
-    `)
+  /**
+   * SQL expression for when an analysis row expires
+   */
+  private expiresAtSql(): string {
+    return `datetime(created_at, '+' || CASE ttl_class WHEN 'time_sensitive' THEN ${this.config.timeSensitiveTtlHours} ELSE ${this.config.ttlHours} END || ' hours')`
+  }
 
-    const row = stmt.get(normalized) as any
+  private normalizeContentText(text: string): string {
+    return text.toLowerCase().trim().replace(/\s+/g, ' ')
+  }
 
-    if (!row) return null
+  /**
+   * Stored form of a date range, with a fixed key order so equal ranges match
+   */
+  private serializeDateRange(dateRange?: DateRange): string | null {
+    if (!dateRange || (!dateRange.from && !dateRange.to)) return null
+    return JSON.stringify({ from: dateRange.from, to: dateRange.to })
+  }
 
+  private mapRow(row: any, cached: boolean): AnalysisResult {
     return {
       id: row.id,
       contentText: row.content_text,
@@ -38,19 +72,118 @@ export class CacheService {
       summaryTranslations: row.summary_translations ? JSON.parse(row.summary_translations) : {},
       sources: JSON.parse(row.sources) as Source[],
       totalSourcesRetrieved: row.total_sources_retrieved || 10,
+      claims: row.claims ? JSON.parse(row.claims) as ClaimResult[] : [],
+      // Analyses stored before deterministic scoring used the model's own score
+      algorithmVersion: row.algorithm_version || 'llm-estimate',
+      origin: row.origin ? JSON.parse(row.origin) : undefined,
+      language: row.language || undefined,
+      dateRange: row.date_range ? JSON.parse(row.date_range) : undefined,
+      partial: row.partial === 1,
+      warnings: row.warnings ? JSON.parse(row.warnings) : undefined,
+      usage: row.usage ? JSON.parse(row.usage) : undefined,
       analyzedAt: row.created_at,
-      cached: true,
+      cached,
     }
   }
 
+  get(contentText: string, dateRange?: DateRange): AnalysisResult | null {
+    const normalized = this.normalizeContentText(contentText)
+
+    const stmt = this.db.prepare(`
+      SELECT * FROM analyses
+      WHERE content_text_normalized = ?
+      AND date_range IS ?
+      AND partial = 0
+      AND ${this.expiresAtSql()} > datetime('now')
+      ORDER BY created_at DESC
+      LIMIT 1
+    `)
+
+    const row = stmt.get(normalized, this.serializeDateRange(dateRange)) as any
+
+    if (!row) return null
+
+    return this.mapRow(row, true)
+  }
+
+  /**
+   * The most similar cached analysis of a different text, if it reaches the similarity threshold
+   * Analyses whose texts use the same claim terms are preferred; termsAgree tells whether
+   * the one returned does, and a match that does not must not be served without another check
+   * Call after get() has missed
+   */
+  getSimilar(
+    contentText: string,
+    dateRange?: DateRange
+  ): { result: AnalysisResult; similarity: number; termsAgree: boolean } | null {
+    if (this.config.similarityThreshold <= 0 || contentText.length > MAX_SIMILAR_LENGTH) return null
+
+    const index = this.loadSimilarityIndex()
+    const target = fingerprint(contentText)
+    const range = this.serializeDateRange(dateRange)
+    const now = Date.now()
+
+    let bestId: string | null = null
+    let bestSimilarity = 0
+    let bestAgrees = false
+    for (const [id, entry] of index) {
+      if (entry.createdAt + this.ttlMs(entry.ttlClass) <= now) {
+        index.delete(id)
+        continue
+      }
+      if (entry.dateRange !== range) continue
+
+      const score = similarity(target, entry.fingerprint)
+      if (score < this.config.similarityThreshold) continue
+      const agrees = termsAgree(target, entry.fingerprint)
+      if ((agrees && !bestAgrees) || (agrees === bestAgrees && score > bestSimilarity)) {
+        bestId = id
+        bestSimilarity = score
+        bestAgrees = agrees
+      }
+    }
+    if (!bestId) return null
+
+    const result = this.getShared(bestId)
+    if (!result) {
+      index.delete(bestId)
+      return null
+    }
+    return { result: { ...result, cached: true }, similarity: bestSimilarity, termsAgree: bestAgrees }
+  }
+
+  private loadSimilarityIndex(): Map<string, IndexedText> {
+    if (this.similarityIndex) return this.similarityIndex
+
+    const rows = this.db.prepare(`
+      SELECT id, content_text, date_range, created_at, ttl_class FROM analyses
+      WHERE partial = 0
+      AND length(content_text) <= ?
+      AND ${this.expiresAtSql()} > datetime('now')
+    `).all(MAX_SIMILAR_LENGTH) as any[]
+
+    this.similarityIndex = new Map()
+    for (const row of rows) {
+      this.similarityIndex.set(row.id, {
+        fingerprint: fingerprint(row.content_text),
+        dateRange: row.date_range,
+        // created_at is UTC without a zone
+        createdAt: Date.parse(`${row.created_at.replace(' ', 'T')}Z`),
+        ttlClass: row.ttl_class,
+      })
+    }
+    return this.similarityIndex
+  }
+
   set(result: Omit<AnalysisResult, 'cached'>): void {
     const normalized = this.normalizeContentText(result.contentText)
 
     const stmt = this.db.prepare(`
       INSERT INTO analyses (
         id, content_text, content_text_normalized, accuracy_score,
-        agreement_score, disagreement_score, neutral_score, summary, summary_translations, sources, total_sources_retrieved
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        agreement_score, disagreement_score, neutral_score, summary, summary_translations, sources, total_sources_retrieved,
+        claims, algorithm_version, origin, language, date_range, partial, warnings, usage, ttl_class
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `)
 
     stmt.run(
@@ -64,8 +197,26 @@ export class CacheService {
       result.summary,
       JSON.stringify(result.summaryTranslations),
       JSON.stringify(result.sources),
-      result.totalSourcesRetrieved
+      result.totalSourcesRetrieved,
+      JSON.stringify(result.claims),
+      result.algorithmVersion,
+      result.origin ? JSON.stringify(result.origin) : null,
+      result.language || null,
+      this.serializeDateRange(result.dateRange),
+      result.partial ? 1 : 0,
+      result.warnings ? JSON.stringify(result.warnings) : null,
+      result.usage ? JSON.stringify(result.usage) : null,
+      this.ttlClassOf(result)
     )
+
+    if (this.similarityIndex && !result.partial && result.contentText.length <= MAX_SIMILAR_LENGTH) {
+      this.similarityIndex.set(result.id, {
+        fingerprint: fingerprint(result.contentText),
+        dateRange: this.serializeDateRange(result.dateRange),
+        createdAt: Date.now(),
+        ttlClass: this.ttlClassOf(result),
+      })
+    }
   }
 
   getShared(id: string): AnalysisResult | null {
@@ -79,29 +230,51 @@ export class CacheService {
 
     if (!row) return null
 
-    return {
-      id: row.id,
-      contentText: row.content_text,
-      accuracyScore: row.accuracy_score,
-      agreementScore: row.agreement_score,
-      disagreementScore: row.disagreement_score,
-      neutralScore: row.neutral_score || 0,
-      summary: row.summary,
-      summaryTranslations: row.summary_translations ? JSON.parse(row.summary_translations) : {},
-      sources: JSON.parse(row.sources) as Source[],
-      totalSourcesRetrieved: row.total_sources_retrieved || 10,
-      analyzedAt: row.created_at,
-      cached: false,
-    }
+    return this.mapRow(row, false)
+  }
+
+  /**
+   * Remove one analysis; returns false when there is none with this ID
+   */
+  delete(id: string): boolean {
+    const info = this.db.prepare('DELETE FROM analyses WHERE id = ?').run(id)
+    this.similarityIndex?.delete(id)
+    return info.changes > 0
+  }
+
+  /**
+   * Remove every analysis whose text matches a pattern, where * matches any text and ? one character
+   * Matching ignores case and repeated whitespace, like cache lookups
+   */
+  purge(pattern: string): number {
+    const like = this.normalizeContentText(pattern)
+      .replace(/[\\%_]/g, match => `\\${match}`)
+      .replace(/\*/g, '%')
+      .replace(/\?/g, '_')
+
+    return this.db.transaction(() => {
+      const rows = this.db.prepare(`
+        SELECT id FROM analyses WHERE content_text_normalized LIKE ? ESCAPE '\\'
+      `).all(like) as { id: string }[]
+      for (const row of rows) this.delete(row.id)
+      return rows.length
+    })()
   }
 
+  /**
+   * Remove expired analyses
+   * Analyses in a user's history are kept, so history items still open; expired ones are never served as cache hits
+   */
   deleteOld(): number {
     const stmt = this.db.prepare(`
       DELETE FROM analyses
-      WHERE datetime(created_at, '+7 days') <= datetime('now')
+      WHERE ${this.expiresAtSql()} <= datetime('now')
+      AND id NOT IN (SELECT analysis_id FROM user_history)
     `)
 
     const info = stmt.run()
+    // Rebuilt without the removed entries on the next lookup
+    if (info.changes > 0) this.similarityIndex = null
     return info.changes
   }
 }
@@ -0,0 +1,169 @@
+import fs from 'fs'
+import path from 'path'
+import Database from 'better-sqlite3'
+import { DomainCredibility, OutletType } from '../types'
+import { DEFAULT_CREDIBILITY, TIER_CREDIBILITY } from '../services/scoring'
+import { parseCsvRecords } from '../utils/csv'
+
+// Starter registry imported into an empty database
+export const DEFAULT_SEED_PATH = path.resolve(__dirname, '../../data/credibility-seed.json')
+
+export const OUTLET_TYPES: OutletType[] = [
+  'wire',
+  'news',
+  'academic',
+  'government',
+  'reference',
+  'fact-checker',
+  'tabloid',
+  'social',
+  'blog',
+  'satire',
+]
+
+/**
+ * Normalize a domain or URL to a bare lowercase hostname without "www."
+ */
+export function normalizeDomain(value: string): string {
+  let host = value.trim().toLowerCase()
+  try {
+    host = new URL(host.includes('://') ? host : `https://${host}`).hostname
+  } catch {
+    // Not URL-shaped, use as-is
+  }
+  return host.replace(/^www\./, '').replace(/\.$/, '')
+}
+
+/**
+ * Validate and normalize raw registry entries from JSON or CSV
+ * Throws with the offending entry number so imports can be fixed
+ */
+export function validateCredibilityEntries(raw: unknown[]): DomainCredibility[] {
+  return raw.map((item, index) => {
+    const entry = (item || {}) as Record<string, unknown>
+    const position = `Entry ${index + 1}`
+
+    const domain = typeof entry.domain === 'string' ? normalizeDomain(entry.domain) : ''
+    if (!domain || !domain.includes('.')) {
+      throw new Error(`${position}: "domain" must be a domain name like example.com`)
+    }
+
+    const name = entry.name ?? entry.outletName ?? entry.outlet_name
+    if (typeof name !== 'string' || name.trim() === '') {
+      throw new Error(`${position} (${domain}): "name" is required`)
+    }
+
+    const type = typeof entry.type === 'string' ? entry.type.trim().toLowerCase() : ''
+    if (!OUTLET_TYPES.includes(type as OutletType)) {
+      throw new Error(`${position} (${domain}): "type" must be one of ${OUTLET_TYPES.join(', ')}`)
+    }
+
+    const tier = Number(entry.reliabilityTier ?? entry.reliability_tier ?? entry.tier)
+    if (!Number.isInteger(tier) || !(tier in TIER_CREDIBILITY)) {
+      throw new Error(`${position} (${domain}): "reliabilityTier" must be an integer from 1 (most reliable) to 5`)
+    }
+
+    return {
+      domain,
+      name: name.trim(),
+      type: type as OutletType,
+      reliabilityTier: tier,
+    }
+  })
+}
+
+/**
+ * Parse a CSV registry export with columns domain, name, type, reliability_tier
+ */
+export function parseCredibilityCsv(text: string): DomainCredibility[] {
+  return validateCredibilityEntries(parseCsvRecords(text))
+}
+
+export class CredibilityService {
+  private db: Database.Database
+  private entries = new Map<string, DomainCredibility>()
+
+  constructor(db: Database.Database, seedPath: string = DEFAULT_SEED_PATH) {
+    this.db = db
+    this.reload()
+
+    if (this.entries.size === 0 && fs.existsSync(seedPath)) {
+      const seeded = this.import(validateCredibilityEntries(JSON.parse(fs.readFileSync(seedPath, 'utf-8'))))
+      console.log(`Seeded credibility registry with ${seeded} domains`)
+    }
+  }
+
+  /**
+   * The registry is small, so it is kept in memory for per-source lookups
+   */
+  private reload(): void {
+    const rows = this.db.prepare(`
+      SELECT domain, outlet_name, type, reliability_tier FROM domain_credibility
+    `).all() as any[]
+
+    this.entries = new Map(rows.map(row => [row.domain, {
+      domain: row.domain,
+      name: row.outlet_name,
+      type: row.type,
+      reliabilityTier: row.reliability_tier,
+    }]))
+  }
+
+  count(): number {
+    return this.entries.size
+  }
+
+  list(): DomainCredibility[] {
+    return Array.from(this.entries.values()).sort((a, b) => a.domain.localeCompare(b.domain))
+  }
+
+  /**
+   * Find the registry entry for a URL, falling back to parent domains
+   * (news.bbc.co.uk -> bbc.co.uk)
+   */
+  lookup(url: string): DomainCredibility | null {
+    const parts = normalizeDomain(url).split('.')
+    for (let i = 0; i < parts.length - 1; i++) {
+      const entry = this.entries.get(parts.slice(i).join('.'))
+      if (entry) return entry
+    }
+    return null
+  }
+
+  /**
+   * Credibility factor used by the scoring module
+   */
+  credibilityOf(url: string): number {
+    const entry = this.lookup(url)
+    return entry ? TIER_CREDIBILITY[entry.reliabilityTier] : DEFAULT_CREDIBILITY
+  }
+
+  /**
+   * Insert or update entries in one transaction
+   * With replace, entries missing from the import are removed
+   */
+  import(entries: DomainCredibility[], replace: boolean = false): number {
+    const upsert = this.db.prepare(`
+      INSERT INTO domain_credibility (domain, outlet_name, type, reliability_tier, updated_at)
+      VALUES (?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(domain) DO UPDATE SET
+        outlet_name = excluded.outlet_name,
+        type = excluded.type,
+        reliability_tier = excluded.reliability_tier,
+        updated_at = CURRENT_TIMESTAMP
+    `)
+
+    const run = this.db.transaction((items: DomainCredibility[]) => {
+      if (replace) {
+        this.db.prepare('DELETE FROM domain_credibility').run()
+      }
+      for (const item of items) {
+        upsert.run(item.domain, item.name, item.type, item.reliabilityTier)
+      }
+    })
+
+    run(entries)
+    this.reload()
+    return entries.length
+  }
+}
@@ -0,0 +1,101 @@
+import Database from 'better-sqlite3'
+import { AnalysisResult, HistoryEntry, HistoryPage } from '../types'
+
+/**
+ * Analysis history of user accounts, newest first
+ * Analyzing the same text again replaces its entry, as in the browser's local history
+ */
+export class HistoryService {
+  private db: Database.Database
+
+  constructor(db: Database.Database) {
+    this.db = db
+  }
+
+  private normalizeContentText(text: string): string {
+    return text.toLowerCase().trim().replace(/\s+/g, ' ')
+  }
+
+  private mapRow(row: any): HistoryEntry {
+    return {
+      analysisId: row.analysis_id,
+      contentText: row.content_text,
+      accuracyScore: row.accuracy_score,
+      analyzedAt: row.analyzed_at,
+    }
+  }
+
+  add(userId: string, entry: HistoryEntry): void {
+    this.db.prepare(`
+      INSERT INTO user_history (user_id, analysis_id, content_text, content_text_normalized, accuracy_score, analyzed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT(user_id, content_text_normalized) DO UPDATE SET
+        analysis_id = excluded.analysis_id,
+        content_text = excluded.content_text,
+        accuracy_score = excluded.accuracy_score,
+        analyzed_at = excluded.analyzed_at
+      WHERE excluded.analyzed_at >= user_history.analyzed_at
+    `).run(
+      userId,
+      entry.analysisId,
+      entry.contentText,
+      this.normalizeContentText(entry.contentText),
+      entry.accuracyScore,
+      entry.analyzedAt
+    )
+  }
+
+  /**
+   * Add an analysis the user just ran or received
+   */
+  addResult(userId: string, result: AnalysisResult): void {
+    this.add(userId, {
+      analysisId: result.id,
+      contentText: result.contentText,
+      accuracyScore: result.accuracyScore,
+      // When the user ran it, which for cached results is later than the analysis
+      analyzedAt: new Date().toISOString(),
+    })
+  }
+
+  /**
+   * Merge entries from another device or the browser's local history, keeping the newest of each text
+   */
+  import(userId: string, entries: HistoryEntry[]): number {
+    this.db.transaction(() => {
+      for (const entry of entries) this.add(userId, entry)
+    })()
+    return this.count(userId)
+  }
+
+  list(userId: string, limit: number, offset: number): HistoryPage {
+    const items = this.db.prepare(`
+      SELECT * FROM user_history
+      WHERE user_id = ?
+      ORDER BY analyzed_at DESC
+      LIMIT ? OFFSET ?
+    `).all(userId, limit, offset).map(row => this.mapRow(row))
+
+    return { items, total: this.count(userId), limit, offset }
+  }
+
+  count(userId: string): number {
+    const row = this.db.prepare('SELECT COUNT(*) AS count FROM user_history WHERE user_id = ?').get(userId) as {
+      count: number
+    }
+    return row.count
+  }
+
+  /**
+   * Remove one entry; returns false when the user has no entry for this analysis
+   */
+  remove(userId: string, analysisId: string): boolean {
+    const info = this.db.prepare('DELETE FROM user_history WHERE user_id = ? AND analysis_id = ?').run(userId, analysisId)
+    return info.changes > 0
+  }
+
+  clear(userId: string): number {
+    const info = this.db.prepare('DELETE FROM user_history WHERE user_id = ?').run(userId)
+    return info.changes
+  }
+}
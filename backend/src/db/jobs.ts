@@ -0,0 +1,168 @@
+import Database from 'better-sqlite3'
+import { v4 as uuidv4 } from 'uuid'
+import { CacheConfig } from '../config'
+import { AnalysisJob, AnalysisProgressEvent, DateRange } from '../types'
+
+export class JobService {
+  private db: Database.Database
+  private config: CacheConfig
+
+  constructor(db: Database.Database, config: CacheConfig) {
+    this.db = db
+    this.config = config
+  }
+
+  private mapRow(row: any): AnalysisJob {
+    return {
+      id: row.id,
+      status: row.status,
+      contentText: row.content_text,
+      url: row.url || undefined,
+      dateRange: row.date_range ? JSON.parse(row.date_range) : undefined,
+      forceRefresh: row.force_refresh === 1,
+      userId: row.user_id || undefined,
+      stage: row.stage || undefined,
+      analysisId: row.analysis_id || undefined,
+      error: row.error || undefined,
+      attempts: row.attempts,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      completedAt: row.completed_at || undefined,
+      batchId: row.batch_id || undefined,
+      batchIndex: row.batch_index ?? undefined,
+    }
+  }
+
+  /**
+   * Queue a job for content text, or for an article URL (stored as its content until fetched)
+   */
+  create(
+    contentText: string,
+    url?: string,
+    dateRange?: DateRange,
+    forceRefresh: boolean = false,
+    userId?: string
+  ): AnalysisJob {
+    const id = uuidv4()
+    this.db.prepare(`
+      INSERT INTO jobs (id, status, content_text, url, date_range, force_refresh, user_id) VALUES (?, 'queued', ?, ?, ?, ?, ?)
+    `).run(id, contentText, url || null, dateRange ? JSON.stringify(dateRange) : null, forceRefresh ? 1 : 0, userId || null)
+
+    return this.get(id)!
+  }
+
+  /**
+   * Create one queued job per text, sharing a batch ID
+   */
+  createBatch(texts: string[], userId?: string): { batchId: string; jobs: AnalysisJob[] } {
+    const batchId = uuidv4()
+    const insert = this.db.prepare(`
+      INSERT INTO jobs (id, status, content_text, batch_id, batch_index, user_id) VALUES (?, 'queued', ?, ?, ?, ?)
+    `)
+
+    const run = this.db.transaction(() => {
+      texts.forEach((text, index) => insert.run(uuidv4(), text, batchId, index, userId || null))
+    })
+    run()
+
+    return { batchId, jobs: this.listBatch(batchId) }
+  }
+
+  /**
+   * Jobs of a batch in submission order
+   */
+  listBatch(batchId: string): AnalysisJob[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM jobs WHERE batch_id = ? ORDER BY batch_index
+    `).all(batchId) as any[]
+
+    return rows.map(row => this.mapRow(row))
+  }
+
+  get(id: string): AnalysisJob | null {
+    const row = this.db.prepare(`
+      SELECT * FROM jobs WHERE id = ? LIMIT 1
+    `).get(id) as any
+
+    return row ? this.mapRow(row) : null
+  }
+
+  /**
+   * Queued jobs, oldest first
+   */
+  listQueued(): AnalysisJob[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM jobs WHERE status = 'queued' ORDER BY created_at, rowid
+    `).all() as any[]
+
+    return rows.map(row => this.mapRow(row))
+  }
+
+  markRunning(id: string): void {
+    this.db.prepare(`
+      UPDATE jobs
+      SET status = 'running', attempts = attempts + 1, error = NULL, updated_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(id)
+  }
+
+  updateStage(id: string, stage: AnalysisProgressEvent['stage']): void {
+    this.db.prepare(`
+      UPDATE jobs SET stage = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+    `).run(stage, id)
+  }
+
+  complete(id: string, analysisId: string): void {
+    this.db.prepare(`
+      UPDATE jobs
+      SET status = 'completed', analysis_id = ?, updated_at = CURRENT_TIMESTAMP, completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(analysisId, id)
+  }
+
+  fail(id: string, error: string): void {
+    this.db.prepare(`
+      UPDATE jobs
+      SET status = 'failed', error = ?, updated_at = CURRENT_TIMESTAMP, completed_at = CURRENT_TIMESTAMP
+      WHERE id = ?
+    `).run(error, id)
+  }
+
+  /**
+   * Jobs left running by a stopped server go back to the queue,
+   * unless they already used up their attempts
+   */
+  recoverInterrupted(maxAttempts: number): { requeued: number; failed: number } {
+    const recover = this.db.transaction(() => {
+      const failed = this.db.prepare(`
+        UPDATE jobs
+        SET status = 'failed', error = 'Interrupted by a server restart', updated_at = CURRENT_TIMESTAMP, completed_at = CURRENT_TIMESTAMP
+        WHERE status = 'running' AND attempts >= ?
+      `).run(maxAttempts).changes
+
+      const requeued = this.db.prepare(`
+        UPDATE jobs SET status = 'queued', updated_at = CURRENT_TIMESTAMP
+        WHERE status = 'running'
+      `).run().changes
+
+      return { requeued, failed }
+    })
+
+    return recover()
+  }
+
+  /**
+   * Remove jobs finished more than CACHE_TTL_HOURS ago, when the analysis they made expires
+   * Time-sensitive analyses expire sooner, and their jobs then report the result as expired
+   */
+  deleteOld(): number {
+    const stmt = this.db.prepare(`
+      DELETE FROM jobs
+      WHERE status IN ('completed', 'failed')
+      AND datetime(completed_at, '+${this.config.ttlHours} hours') <= datetime('now')
+    `)
+
+    const info = stmt.run()
+    return info.changes
+  }
+}
@@ -0,0 +1,326 @@
+import Database from 'better-sqlite3'
+
+export interface Migration {
+  // Applied in order; never renumber or edit a migration once released, add a new one instead
+  version: number
+  name: string
+  up: (db: Database.Database) => void
+}
+
+/**
+ * Add a column unless the table already has it
+ *
+ * Databases created before versioned migrations went through the old startup code,
+ * which added columns in any order, so migrations 1-25 check first. Later migrations
+ * use plain ALTER TABLE, and a failure stops the run.
+ */
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[]
+  if (columns.some(existing => existing.name === column)) return
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_analyses',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS analyses (
+          id TEXT PRIMARY KEY,
+          content_text TEXT NOT NULL,
+          content_text_normalized TEXT NOT NULL,
+          accuracy_score INTEGER NOT NULL,
+          agreement_score INTEGER NOT NULL,
+          disagreement_score INTEGER NOT NULL,
+          neutral_score INTEGER NOT NULL DEFAULT 0,
+          summary TEXT NOT NULL,
+          sources TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+      addColumnIfMissing(db, 'analyses', 'neutral_score', 'INTEGER NOT NULL DEFAULT 0')
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_content_text_normalized
+        ON analyses(content_text_normalized)
+      `)
+    },
+  },
+  {
+    version: 2,
+    name: 'add_analyses_total_sources_retrieved',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'total_sources_retrieved', 'INTEGER NOT NULL DEFAULT 10'),
+  },
+  {
+    version: 3,
+    name: 'add_analyses_summary_translations',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'summary_translations', 'TEXT'),
+  },
+  {
+    version: 4,
+    name: 'add_analyses_claims',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'claims', 'TEXT'),
+  },
+  {
+    version: 5,
+    name: 'add_analyses_algorithm_version',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'algorithm_version', 'TEXT'),
+  },
+  {
+    version: 6,
+    name: 'add_analyses_origin',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'origin', 'TEXT'),
+  },
+  {
+    version: 7,
+    name: 'add_analyses_language',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'language', 'TEXT'),
+  },
+  {
+    version: 8,
+    name: 'add_analyses_date_range',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'date_range', 'TEXT'),
+  },
+  {
+    version: 9,
+    name: 'add_analyses_partial_and_warnings',
+    up: (db) => {
+      addColumnIfMissing(db, 'analyses', 'partial', 'INTEGER NOT NULL DEFAULT 0')
+      addColumnIfMissing(db, 'analyses', 'warnings', 'TEXT')
+    },
+  },
+  {
+    version: 10,
+    name: 'add_analyses_usage',
+    up: (db) => addColumnIfMissing(db, 'analyses', 'usage', 'TEXT'),
+  },
+  {
+    version: 11,
+    name: 'add_analyses_ttl_class',
+    up: (db) => {
+      addColumnIfMissing(db, 'analyses', 'ttl_class', `TEXT NOT NULL DEFAULT 'standard'`)
+      // Analyses with a time-sensitive claim are marked from their stored claims
+      db.exec(`UPDATE analyses SET ttl_class = 'time_sensitive' WHERE claims LIKE '%"timeSensitive":true%'`)
+    },
+  },
+  {
+    version: 12,
+    name: 'create_domain_credibility',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS domain_credibility (
+          domain TEXT PRIMARY KEY,
+          outlet_name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          reliability_tier INTEGER NOT NULL,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+    },
+  },
+  {
+    version: 13,
+    name: 'create_jobs',
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS jobs (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL DEFAULT 'queued',
+          content_text TEXT NOT NULL,
+          stage TEXT,
+          analysis_id TEXT,
+          error TEXT,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          completed_at DATETIME
+        )
+      `)
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_jobs_status
+        ON jobs(status)
+      `)
+    },
+  },
+  {
+    version: 14,
+    name: 'add_jobs_batch',
+    up: (db) => {
+      addColumnIfMissing(db, 'jobs', 'batch_id', 'TEXT')
+      addColumnIfMissing(db, 'jobs', 'batch_index', 'INTEGER')
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_jobs_batch_id
+        ON jobs(batch_id)
+      `)
+    },
+  },
+  {
+    version: 15,
+    name: 'add_jobs_url',
+    up: (db) => addColumnIfMissing(db, 'jobs', 'url', 'TEXT'),
+  },
+  {
+    version: 16,
+    name: 'add_jobs_date_range',
+    up: (db) => addColumnIfMissing(db, 'jobs', 'date_range', 'TEXT'),
+  },
+  {
+    version: 17,
+    name: 'add_jobs_force_refresh',
+    up: (db) => addColumnIfMissing(db, 'jobs', 'force_refresh', 'INTEGER NOT NULL DEFAULT 0'),
+  },
+  {
+    version: 18,
+    name: 'create_page_cache',
+    up: (db) => {
+      // Fetched pages for deep evidence retrieval
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS page_cache (
+          url TEXT PRIMARY KEY,
+          final_url TEXT,
+          title TEXT,
+          text TEXT,
+          error TEXT,
+          fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+    },
+  },
+  {
+    version: 19,
+    name: 'create_summary_translations',
+    up: (db) => {
+      // Summary translations, made on demand per analysis and language
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS summary_translations (
+          analysis_id TEXT NOT NULL,
+          language TEXT NOT NULL,
+          summary TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (analysis_id, language)
+        )
+      `)
+    },
+  },
+  {
+    version: 20,
+    name: 'create_provider_calls',
+    up: (db) => {
+      // Provider call log for usage and cost reporting
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS provider_calls (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          analysis_id TEXT,
+          kind TEXT NOT NULL,
+          provider TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          model TEXT,
+          prompt_tokens INTEGER NOT NULL DEFAULT 0,
+          completion_tokens INTEGER NOT NULL DEFAULT 0,
+          search_credits INTEGER NOT NULL DEFAULT 0,
+          cost_usd REAL NOT NULL DEFAULT 0,
+          latency_ms INTEGER NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_provider_calls_created_at
+        ON provider_calls(created_at)
+      `)
+    },
+  },
+  {
+    version: 21,
+    name: 'create_api_keys',
+    up: (db) => {
+      // API keys, stored as SHA-256 hashes
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS api_keys (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          key_hash TEXT NOT NULL UNIQUE,
+          prefix TEXT NOT NULL,
+          daily_quota INTEGER,
+          rate_limit_per_minute INTEGER,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          last_used_at DATETIME,
+          revoked_at DATETIME
+        )
+      `)
+    },
+  },
+  {
+    version: 22,
+    name: 'create_quota_usage',
+    up: (db) => {
+      // Daily analysis counters per API key or client IP
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS quota_usage (
+          subject TEXT NOT NULL,
+          day TEXT NOT NULL,
+          count INTEGER NOT NULL DEFAULT 0,
+          PRIMARY KEY (subject, day)
+        )
+      `)
+    },
+  },
+  {
+    version: 23,
+    name: 'create_users',
+    up: (db) => {
+      // User accounts, with scrypt password hashes
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          email TEXT NOT NULL UNIQUE,
+          password_hash TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `)
+    },
+  },
+  {
+    version: 24,
+    name: 'create_sessions',
+    up: (db) => {
+      // Login sessions, stored as SHA-256 hashes of their tokens
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS sessions (
+          token_hash TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+          expires_at DATETIME NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 25,
+    name: 'create_user_history',
+    up: (db) => {
+      // Analysis history per user
+      // Entries keep the text and score, so they outlive the cached analysis they link to
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS user_history (
+          user_id TEXT NOT NULL,
+          analysis_id TEXT NOT NULL,
+          content_text TEXT NOT NULL,
+          content_text_normalized TEXT NOT NULL,
+          accuracy_score INTEGER NOT NULL,
+          analyzed_at DATETIME NOT NULL,
+          PRIMARY KEY (user_id, content_text_normalized)
+        )
+      `)
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_user_history_analyzed_at
+        ON user_history(user_id, analyzed_at)
+      `)
+    },
+  },
+  {
+    version: 26,
+    name: 'add_jobs_user_id',
+    // Jobs submitted by a logged-in user, whose history gets the result
+    up: (db) => db.exec(`ALTER TABLE jobs ADD COLUMN user_id TEXT`),
+  },
+]
@@ -0,0 +1,65 @@
+import Database from 'better-sqlite3'
+
+export interface CachedPage {
+  url: string
+  finalUrl?: string
+  title?: string
+  // Extracted article text, missing when the fetch failed
+  text?: string
+  error?: string
+  fetchedAt: string
+}
+
+/**
+ * Source pages fetched for deep evidence, kept for a limited time so repeated
+ * analyses of the same sources do not refetch them
+ * Failed fetches are cached too, so broken pages are not retried on every analysis
+ */
+export class PageCacheService {
+  private db: Database.Database
+
+  constructor(db: Database.Database, private ttlHours: number) {
+    this.db = db
+  }
+
+  get(url: string): CachedPage | null {
+    const row = this.db.prepare(`
+      SELECT * FROM page_cache
+      WHERE url = ?
+      AND datetime(fetched_at, '+' || ? || ' hours') > datetime('now')
+    `).get(url, this.ttlHours) as any
+
+    if (!row) return null
+
+    return {
+      url: row.url,
+      finalUrl: row.final_url || undefined,
+      title: row.title || undefined,
+      text: row.text ?? undefined,
+      error: row.error || undefined,
+      fetchedAt: row.fetched_at,
+    }
+  }
+
+  set(page: Omit<CachedPage, 'fetchedAt'>): void {
+    this.db.prepare(`
+      INSERT INTO page_cache (url, final_url, title, text, error, fetched_at)
+      VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP)
+      ON CONFLICT(url) DO UPDATE SET
+        final_url = excluded.final_url,
+        title = excluded.title,
+        text = excluded.text,
+        error = excluded.error,
+        fetched_at = CURRENT_TIMESTAMP
+    `).run(page.url, page.finalUrl || null, page.title || null, page.text ?? null, page.error || null)
+  }
+
+  deleteExpired(): number {
+    const info = this.db.prepare(`
+      DELETE FROM page_cache
+      WHERE datetime(fetched_at, '+' || ? || ' hours') <= datetime('now')
+    `).run(this.ttlHours)
+
+    return info.changes
+  }
+}
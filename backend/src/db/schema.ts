@@ -1,50 +1,126 @@
 import Database from 'better-sqlite3'
+import { MIGRATIONS, Migration } from './migrations'
 
-export function initializeDatabase(dbPath: string): Database.Database {
-  const db = new Database(dbPath)
+export interface MigrationStatus {
+  version: number
+  name: string
+  // Missing while the migration is pending
+  appliedAt?: string
+}
+
+export class MigrationError extends Error {
+  constructor(migration: Migration, cause: unknown) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${cause instanceof Error ? cause.message : cause}`)
+    this.name = 'MigrationError'
+  }
+}
+
+// Thrown inside a dry run's transaction to roll it back
+const DRY_RUN_ROLLBACK = new Error('Dry run')
+
+const LATEST_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Applied migrations by version, with when they were applied
+ */
+function appliedVersions(db: Database.Database): Map<number, string> {
+  const table = db.prepare(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'`).get()
+  if (!table) return new Map()
+
+  const rows = db.prepare('SELECT version, applied_at FROM schema_migrations').all() as { version: number; applied_at: string }[]
+  return new Map(rows.map(row => [row.version, row.applied_at]))
+}
+
+/**
+ * Every known migration, with when it was applied to this database
+ */
+export function migrationStatus(db: Database.Database): MigrationStatus[] {
+  const applied = appliedVersions(db)
+  return MIGRATIONS.map(migration => ({
+    version: migration.version,
+    name: migration.name,
+    appliedAt: applied.get(migration.version),
+  }))
+}
 
-  // Create analyses table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS analyses (
-      id TEXT PRIMARY KEY,
-      content_text TEXT NOT NULL,
-      content_text_normalized TEXT NOT NULL,
-      accuracy_score INTEGER NOT NULL,
-      agreement_score INTEGER NOT NULL,
-      disagreement_score INTEGER NOT NULL,
-      neutral_score INTEGER NOT NULL DEFAULT 0,
-      summary TEXT NOT NULL,
-      sources TEXT NOT NULL,
-      created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+/**
+ * Migrations not yet applied to this database, in order
+ * Refuses a database migrated by a newer version of the server
+ */
+export function pendingMigrations(db: Database.Database): Migration[] {
+  const applied = appliedVersions(db)
+  const newest = Math.max(0, ...applied.keys())
+  if (newest > LATEST_VERSION) {
+    throw new Error(`Database schema version ${newest} is newer than this server supports (${LATEST_VERSION})`)
+  }
+  return MIGRATIONS.filter(migration => !applied.has(migration.version))
+}
+
+/**
+ * Apply pending migrations in order, each in a transaction together with its schema_migrations row
+ * A failing migration is rolled back and stops the run; the ones before it stay applied
+ * With dryRun, the pending migrations run in one transaction that is then rolled back,
+ * so failures show up without changing the database
+ */
+export function migrate(db: Database.Database, options: { dryRun?: boolean } = {}): Migration[] {
+  const pending = pendingMigrations(db)
+  if (pending.length === 0) return pending
+
+  const createTable = () => db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
     )
   `)
-
-  // Add neutral_score column to existing tables (migration)
-  try {
-    db.exec(`ALTER TABLE analyses ADD COLUMN neutral_score INTEGER NOT NULL DEFAULT 0`)
-  } catch (error) {
-    // Column already exists, ignore error
+  const apply = (migration: Migration) => {
+    try {
+      migration.up(db)
+    } catch (error) {
+      throw new MigrationError(migration, error)
+    }
+    db.prepare('INSERT INTO schema_migrations (version, name) VALUES (?, ?)').run(migration.version, migration.name)
   }
 
-  // Add total_sources_retrieved column to existing tables (migration)
-  try {
-    db.exec(`ALTER TABLE analyses ADD COLUMN total_sources_retrieved INTEGER NOT NULL DEFAULT 10`)
-  } catch (error) {
-    // Column already exists, ignore error
+  if (options.dryRun) {
+    try {
+      db.transaction(() => {
+        createTable()
+        pending.forEach(apply)
+        throw DRY_RUN_ROLLBACK
+      })()
+    } catch (error) {
+      if (error !== DRY_RUN_ROLLBACK) throw error
+    }
+    return pending
   }
 
-  // Add summary_translations column to existing tables (migration)
-  try {
-    db.exec(`ALTER TABLE analyses ADD COLUMN summary_translations TEXT`)
-  } catch (error) {
-    // Column already exists, ignore error
+  createTable()
+  for (const migration of pending) {
+    db.transaction(() => apply(migration))()
   }
+  return pending
+}
 
-  // Create index for faster lookups
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_content_text_normalized
-    ON analyses(content_text_normalized)
-  `)
+/**
+ * Open the database and bring its schema up to date
+ * With migrateSchema false, pending migrations are an error instead; apply them with npm run migrate
+ */
+export function initializeDatabase(dbPath: string, migrateSchema: boolean = true): Database.Database {
+  const db = new Database(dbPath)
 
+  if (!migrateSchema) {
+    const pending = pendingMigrations(db)
+    if (pending.length > 0) {
+      db.close()
+      throw new Error(`Database has ${pending.length} pending migrations. Run npm run migrate to apply them`)
+    }
+    return db
+  }
+
+  const applied = migrate(db)
+  if (applied.length > 0) {
+    console.log(`Applied ${applied.length} database migrations (now at version ${LATEST_VERSION})`)
+  }
   return db
 }
@@ -0,0 +1,39 @@
+import Database from 'better-sqlite3'
+
+/**
+ * Summary translations, stored per analysis and language the first time they are requested
+ */
+export class TranslationService {
+  private db: Database.Database
+
+  constructor(db: Database.Database) {
+    this.db = db
+  }
+
+  get(analysisId: string, language: string): string | null {
+    const row = this.db.prepare(`
+      SELECT summary FROM summary_translations
+      WHERE analysis_id = ? AND language = ?
+    `).get(analysisId, language) as { summary: string } | undefined
+
+    return row ? row.summary : null
+  }
+
+  set(analysisId: string, language: string, summary: string): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO summary_translations (analysis_id, language, summary)
+      VALUES (?, ?, ?)
+    `).run(analysisId, language, summary)
+  }
+
+  /**
+   * Remove translations whose analysis has expired from the cache
+   */
+  deleteOrphaned(): number {
+    const info = this.db.prepare(`
+      DELETE FROM summary_translations
+      WHERE analysis_id NOT IN (SELECT id FROM analyses)
+    `).run()
+    return info.changes
+  }
+}
@@ -0,0 +1,133 @@
+import Database from 'better-sqlite3'
+import { DateRange } from '../types'
+
+export type ProviderCallKind = 'llm' | 'search'
+
+/**
+ * One request to a search provider or a language model
+ */
+export interface ProviderCall {
+  kind: ProviderCallKind
+  provider: string
+  // LLM task or search operation
+  operation: string
+  model?: string
+  promptTokens: number
+  completionTokens: number
+  searchCredits: number
+  costUsd: number
+  latencyMs: number
+}
+
+export interface UsageTotals {
+  calls: number
+  llmCalls: number
+  searchCalls: number
+  promptTokens: number
+  completionTokens: number
+  searchCredits: number
+  costUsd: number
+  avgLatencyMs: number
+}
+
+export interface DailyUsage extends UsageTotals {
+  day: string
+  analyses: number
+}
+
+export interface ProviderUsage extends UsageTotals {
+  provider: string
+  kind: ProviderCallKind
+}
+
+const TOTALS_COLUMNS = `
+  COUNT(*) AS calls,
+  SUM(CASE WHEN kind = 'llm' THEN 1 ELSE 0 END) AS llmCalls,
+  SUM(CASE WHEN kind = 'search' THEN 1 ELSE 0 END) AS searchCalls,
+  SUM(prompt_tokens) AS promptTokens,
+  SUM(completion_tokens) AS completionTokens,
+  SUM(search_credits) AS searchCredits,
+  ROUND(SUM(cost_usd), 6) AS costUsd,
+  CAST(ROUND(AVG(latency_ms)) AS INTEGER) AS avgLatencyMs
+`
+
+/**
+ * Log of provider calls, summed into usage reports and the daily budget
+ * Days are UTC calendar days
+ */
+export class UsageService {
+  private db: Database.Database
+
+  constructor(db: Database.Database) {
+    this.db = db
+  }
+
+  record(call: ProviderCall, analysisId?: string): void {
+    this.db.prepare(`
+      INSERT INTO provider_calls (
+        analysis_id, kind, provider, operation, model, prompt_tokens,
+        completion_tokens, search_credits, cost_usd, latency_ms
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      analysisId || null,
+      call.kind,
+      call.provider,
+      call.operation,
+      call.model || null,
+      call.promptTokens,
+      call.completionTokens,
+      call.searchCredits,
+      call.costUsd,
+      Math.round(call.latencyMs)
+    )
+  }
+
+  /**
+   * Estimated spend so far on a UTC day (YYYY-MM-DD), today by default
+   * Checked before every analysis, so it filters on a range of created_at that its index can serve
+   */
+  costOn(day: string = new Date().toISOString().substring(0, 10)): number {
+    const row = this.db.prepare(`
+      SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM provider_calls
+      WHERE created_at >= ? AND created_at < date(?, '+1 day')
+    `).get(day, day) as { cost: number }
+    return row.cost
+  }
+
+  /**
+   * Totals per day, newest first
+   */
+  byDay(range: DateRange): DailyUsage[] {
+    return this.db.prepare(`
+      SELECT date(created_at) AS day, COUNT(DISTINCT analysis_id) AS analyses, ${TOTALS_COLUMNS}
+      FROM provider_calls
+      WHERE created_at >= ? AND created_at < date(?, '+1 day')
+      GROUP BY day
+      ORDER BY day DESC
+    `).all(range.from, range.to) as DailyUsage[]
+  }
+
+  /**
+   * Totals per provider, most expensive first
+   */
+  byProvider(range: DateRange): ProviderUsage[] {
+    return this.db.prepare(`
+      SELECT provider, kind, ${TOTALS_COLUMNS}
+      FROM provider_calls
+      WHERE created_at >= ? AND created_at < date(?, '+1 day')
+      GROUP BY provider, kind
+      ORDER BY costUsd DESC, calls DESC
+    `).all(range.from, range.to) as ProviderUsage[]
+  }
+
+  /**
+   * Remove calls older than the given number of days
+   */
+  deleteOld(days: number = 90): number {
+    const info = this.db.prepare(`
+      DELETE FROM provider_calls
+      WHERE datetime(created_at, '+' || ? || ' days') <= datetime('now')
+    `).run(days)
+    return info.changes
+  }
+}
@@ -0,0 +1,51 @@
+import fs from 'fs'
+import dotenv from 'dotenv'
+import { initializeDatabase } from './db/schema'
+import { CredibilityService, parseCredibilityCsv, validateCredibilityEntries } from './db/credibility'
+
+dotenv.config()
+
+/**
+ * Import a domain credibility registry into the database
+ *
+ * Usage: npm run credibility:import -- <file.csv|file.json> [--replace]
+ *
+ * CSV files need a header row with domain, name, type, reliability_tier.
+ * JSON files hold an array of { domain, name, type, reliabilityTier }.
+ * --replace removes every domain that is not in the file.
+ */
+function main() {
+  const args = process.argv.slice(2)
+  const replace = args.includes('--replace')
+  const file = args.find(arg => !arg.startsWith('--'))
+
+  if (!file) {
+    console.error('Usage: npm run credibility:import -- <file.csv|file.json> [--replace]')
+    process.exit(1)
+  }
+
+  let entries
+  try {
+    const text = fs.readFileSync(file, 'utf-8')
+    if (file.toLowerCase().endsWith('.csv')) {
+      entries = parseCredibilityCsv(text)
+    } else {
+      const parsed = JSON.parse(text)
+      entries = validateCredibilityEntries(Array.isArray(parsed) ? parsed : parsed.entries || [])
+    }
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  const db = initializeDatabase(process.env.DATABASE_PATH || './truthmeter.db')
+  const credibilityService = new CredibilityService(db)
+  const imported = credibilityService.import(entries, replace)
+  const total = credibilityService.count()
+  db.close()
+
+  console.log(`Imported ${imported} entries from ${file}${replace ? ' (replaced registry)' : ''}`)
+  console.log(`Registry now holds ${total} domains`)
+}
+
+main()
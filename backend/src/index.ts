@@ -1,47 +1,159 @@
 import express from 'express'
 import cors from 'cors'
 import dotenv from 'dotenv'
+import Database from 'better-sqlite3'
 import { initializeDatabase } from './db/schema'
 import { CacheService } from './db/cache'
-import { SerperService } from './services/serper'
+import { CredibilityService } from './db/credibility'
+import { JobService } from './db/jobs'
+import { PageCacheService } from './db/pageCache'
+import { TranslationService } from './db/translations'
+import { UsageService } from './db/usage'
+import { ApiKeyService } from './db/apiKeys'
+import { AccountService } from './db/accounts'
+import { HistoryService } from './db/history'
+import { AppConfig, loadConfig } from './config'
+import { SearchProvider, createSearchProvider } from './services/searchProvider'
+import { LLMProvider, createLLMProvider } from './services/llmProvider'
+import {
+  EvidenceClock,
+  FixtureStore,
+  RecordingLLMProvider,
+  RecordingSearchProvider,
+  ReplayLLMProvider,
+  ReplaySearchProvider,
+  fixtureClock,
+  systemClock,
+} from './services/replay'
 import { OpenAIService } from './services/openai'
+import { LanguageDetectorService } from './services/languageDetector'
 import { FactCheckerService } from './services/factChecker'
+import { ArticleFetcher } from './services/articleFetcher'
+import { EvidenceRetriever } from './services/evidenceRetriever'
+import { JobRunner } from './services/jobRunner'
+import { SummaryTranslator } from './services/summaryTranslator'
+import { Sweeper } from './services/sweeper'
+import { MeteredLLMProvider, UsageMeter } from './services/usage'
 import { createAnalyzeRouter } from './routes/analyze'
 import { createShareRouter } from './routes/share'
+import { createAdminRouter } from './routes/admin'
+import { createJobsRouter } from './routes/jobs'
+import { createBatchRouter } from './routes/batch'
+import { createAnalysesRouter } from './routes/analyses'
+import { createAuthRouter } from './routes/auth'
+import { createHistoryRouter } from './routes/history'
+import { createApiAccess } from './middleware/apiAccess'
+import { createSessionAuth } from './middleware/session'
 
 // Load environment variables
 dotenv.config()
 
-const PORT = process.env.PORT || 3001
-const DATABASE_PATH = process.env.DATABASE_PATH || './truthmeter.db'
-
-// Validate required environment variables
-if (!process.env.OPENAI_API_KEY) {
-  console.error('Error: OPENAI_API_KEY is required')
-  process.exit(1)
-}
-
-if (!process.env.SERPER_API_KEY) {
-  console.error('Error: SERPER_API_KEY is required')
+let config: AppConfig
+try {
+  config = loadConfig()
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`)
   process.exit(1)
 }
+const PORT = config.port
+const DATABASE_PATH = config.databasePath
 
 // Initialize services
 console.log('Initializing database...')
-const db = initializeDatabase(DATABASE_PATH)
-const cacheService = new CacheService(db)
+let db: Database.Database
+try {
+  db = initializeDatabase(DATABASE_PATH, config.migrateOnStartup)
+} catch (error) {
+  console.error(`Error: ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+}
+const cacheService = new CacheService(db, config.cache)
+const credibilityService = new CredibilityService(db)
+const jobService = new JobService(db, config.cache)
+const pageCache = new PageCacheService(db, config.deepEvidence.pageCacheTtlHours)
+const usageService = new UsageService(db)
+const usageMeter = new UsageMeter(config.usage, usageService)
+const apiKeyService = new ApiKeyService(db)
+const accountService = new AccountService(db)
+const historyService = new HistoryService(db)
 
 console.log('Initializing services...')
-const serperService = new SerperService(process.env.SERPER_API_KEY)
-const openaiService = new OpenAIService(process.env.OPENAI_API_KEY)
-const factChecker = new FactCheckerService(serperService, openaiService, cacheService)
+const fixtureStore = new FixtureStore(config.fixturesDir)
+let searchProvider: SearchProvider
+let llmProvider: LLMProvider
+// Recorded and replayed analyses measure recency from when their searches were recorded
+const evidenceClock: EvidenceClock = config.providerMode === 'live' ? systemClock : fixtureClock(fixtureStore)
+if (config.providerMode === 'replay') {
+  // Offline: no API keys needed, every response comes from recorded fixtures
+  searchProvider = new ReplaySearchProvider(fixtureStore)
+  llmProvider = new ReplayLLMProvider(fixtureStore)
+} else {
+  try {
+    // Only live calls are metered; replayed fixtures cost nothing
+    searchProvider = createSearchProvider(config.search, config.resilience.search, usageMeter)
+    llmProvider = new MeteredLLMProvider(createLLMProvider(config.llm, config.resilience.llm), usageMeter)
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exit(1)
+  }
+
+  if (config.providerMode === 'record') {
+    searchProvider = new RecordingSearchProvider(searchProvider, fixtureStore)
+    llmProvider = new RecordingLLMProvider(llmProvider, fixtureStore)
+  }
+}
+console.log(`Provider mode: ${config.providerMode}${config.providerMode !== 'live' ? ` (fixtures: ${config.fixturesDir})` : ''}`)
+console.log(`Search provider: ${searchProvider.name}`)
+console.log(`LLM provider: ${llmProvider.name}${config.llm.baseUrl ? ` (${config.llm.baseUrl})` : ''}`)
+console.log(`API keys: ${config.access.requireApiKey ? 'required' : 'optional'}`)
+console.log(`Cache lifetime: ${config.cache.ttlHours} hours, ${config.cache.timeSensitiveTtlHours} hours for time-sensitive claims`)
+if (config.cache.similarityThreshold > 0) {
+  console.log(`Semantic cache: serving analyses of texts at least ${config.cache.similarityThreshold} similar`)
+}
+if (config.usage.dailyBudgetUsd !== undefined) {
+  console.log(`Daily budget: $${config.usage.dailyBudgetUsd} (${config.usage.budgetAction} when spent)`)
+}
+const openaiService = new OpenAIService(llmProvider)
+const articleFetcher = new ArticleFetcher(config.articleFetch)
+
+// Deep evidence fetches live pages, which recorded fixtures cannot reproduce, so it only runs in live mode
+let evidenceRetriever: EvidenceRetriever | undefined
+if (config.deepEvidence.enabled && config.providerMode === 'live') {
+  const evidenceFetcher = new ArticleFetcher({ ...config.articleFetch, timeoutMs: config.deepEvidence.timeoutMs })
+  evidenceRetriever = new EvidenceRetriever(evidenceFetcher, pageCache, config.deepEvidence.maxSources)
+  console.log(`Deep evidence: fetching the top ${config.deepEvidence.maxSources} sources per claim`)
+} else if (config.deepEvidence.enabled) {
+  console.log(`Deep evidence: disabled in ${config.providerMode} mode`)
+}
+const languageDetector = new LanguageDetectorService(llmProvider)
+const factChecker = new FactCheckerService(
+  searchProvider,
+  openaiService,
+  cacheService,
+  credibilityService,
+  articleFetcher,
+  languageDetector,
+  evidenceRetriever,
+  usageMeter,
+  evidenceClock
+)
+const jobRunner = new JobRunner(jobService, factChecker, config.jobConcurrency, historyService)
+const translationService = new TranslationService(db)
+const summaryTranslator = new SummaryTranslator(cacheService, translationService, openaiService, usageMeter)
 
 // Create Express app
 const app = express()
 
+// Behind a reverse proxy, req.ip comes from X-Forwarded-For
+app.set('trust proxy', config.access.trustProxy)
+
 // Middleware
-app.use(cors())
-app.use(express.json())
+const { corsOrigins } = config.access
+app.use(cors({
+  origin: corsOrigins.includes('*') ? '*' : corsOrigins,
+  exposedHeaders: ['Retry-After', 'X-Quota-Limit', 'X-Quota-Remaining'],
+}))
+app.use(express.json({ limit: '2mb' }))
 
 // Request logging
 app.use((req, res, next) => {
@@ -49,19 +161,51 @@ app.use((req, res, next) => {
   next()
 })
 
-// Routes
-app.use('/', createAnalyzeRouter(factChecker))
-app.use('/', createShareRouter(cacheService))
-
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() })
 })
 
-// Cleanup old cache entries on startup
-console.log('Cleaning up old cache entries...')
-const deleted = cacheService.deleteOld()
-console.log(`Deleted ${deleted} old cache entries`)
+// Admin routes use the admin token, not API keys
+app.use('/', createAdminRouter(
+  credibilityService,
+  usageService,
+  usageMeter,
+  apiKeyService,
+  cacheService,
+  config.adminToken
+))
+
+// Every route below needs an API key, or falls under the per-IP limits when keys are optional
+app.use(createApiAccess(apiKeyService, config.access))
+app.use(createSessionAuth(accountService))
+app.use('/', createAuthRouter(accountService))
+app.use('/', createHistoryRouter(historyService))
+app.use('/', createAnalyzeRouter(factChecker, jobRunner, historyService))
+app.use('/', createJobsRouter(jobService, cacheService))
+app.use('/', createBatchRouter(jobRunner, jobService, cacheService))
+app.use('/', createShareRouter(cacheService))
+app.use('/', createAnalysesRouter(cacheService, summaryTranslator))
+
+// Clean up expired rows now and every CACHE_SWEEP_INTERVAL_MINUTES
+const sweeper = new Sweeper([
+  { name: 'expired cache entries', run: () => cacheService.deleteOld() },
+  { name: 'old jobs', run: () => jobService.deleteOld() },
+  // After the cache, so translations of the analyses just removed go too
+  { name: 'translations of expired analyses', run: () => translationService.deleteOrphaned() },
+  { name: 'expired cached pages', run: () => pageCache.deleteExpired() },
+  { name: 'provider calls older than 90 days', run: () => usageService.deleteOld() },
+  { name: 'quota counters of past days', run: () => apiKeyService.deleteOldQuotaUsage() },
+  { name: 'expired sessions', run: () => accountService.deleteExpiredSessions() },
+])
+console.log('Cleaning up expired entries...')
+sweeper.start(config.cache.sweepIntervalMinutes * 60 * 1000)
+
+// Resume jobs queued or interrupted before the last shutdown
+const resumed = jobRunner.resume()
+if (resumed.queued > 0 || resumed.failed > 0) {
+  console.log(`Resumed ${resumed.queued} queued jobs (${resumed.requeued} interrupted), ${resumed.failed} failed after too many attempts`)
+}
 
 // Start server
 app.listen(PORT, () => {
@@ -73,6 +217,7 @@ app.listen(PORT, () => {
 // Graceful shutdown
 process.on('SIGINT', () => {
   console.log('\nShutting down gracefully...')
+  sweeper.stop()
   db.close()
   process.exit(0)
 })
@@ -0,0 +1,83 @@
+import dotenv from 'dotenv'
+import { initializeDatabase } from './db/schema'
+import { ApiKeyService } from './db/apiKeys'
+
+dotenv.config()
+
+const USAGE = `Usage:
+  npm run keys -- create <name> [--quota <analyses per day>] [--rate <requests per minute>]
+  npm run keys -- list
+  npm run keys -- revoke <id>`
+
+function readLimit(args: string[], flag: string): number | undefined {
+  const index = args.indexOf(flag)
+  if (index === -1) return undefined
+
+  const value = Number(args[index + 1])
+  if (!Number.isInteger(value) || value < 1) {
+    console.error(`Error: ${flag} needs a positive whole number`)
+    process.exit(1)
+  }
+  return value
+}
+
+/**
+ * Issue, list and revoke API keys
+ *
+ * Usage: npm run keys -- create <name> [--quota N] [--rate N] | list | revoke <id>
+ *
+ * Keys without --quota or --rate use API_KEY_DAILY_QUOTA and API_KEY_RATE_LIMIT.
+ * A new key is printed once; only its hash is stored.
+ */
+function main() {
+  const [command, ...args] = process.argv.slice(2)
+  if (!['create', 'list', 'revoke'].includes(command)) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const db = initializeDatabase(process.env.DATABASE_PATH || './truthmeter.db')
+  const apiKeyService = new ApiKeyService(db)
+
+  if (command === 'create') {
+    const name = args[0]
+    if (!name || name.startsWith('--')) {
+      console.error(USAGE)
+      process.exit(1)
+    }
+
+    const { key, apiKey } = apiKeyService.create(name, {
+      dailyQuota: readLimit(args, '--quota'),
+      rateLimitPerMinute: readLimit(args, '--rate'),
+    })
+    console.log(`Created key ${apiKey.id} for ${name}`)
+    console.log(`\n  ${key}\n`)
+    console.log('Store it now: it cannot be shown again.')
+  } else if (command === 'list') {
+    const keys = apiKeyService.list()
+    if (keys.length === 0) console.log('No API keys')
+    for (const key of keys) {
+      const limits = [
+        `quota ${key.dailyQuota ?? 'default'}/day`,
+        `rate ${key.rateLimitPerMinute ?? 'default'}/min`,
+      ].join(', ')
+      const status = key.revokedAt ? `revoked ${key.revokedAt}` : `last used ${key.lastUsedAt || 'never'}`
+      console.log(`${key.id}  ${key.prefix}...  ${key.name}  (${limits}; ${status})`)
+    }
+  } else {
+    const id = args[0]
+    if (!id) {
+      console.error(USAGE)
+      process.exit(1)
+    }
+    if (!apiKeyService.revoke(id)) {
+      console.error(`Error: no active API key with ID ${id}`)
+      process.exit(1)
+    }
+    console.log(`Revoked key ${id}`)
+  }
+
+  db.close()
+}
+
+main()
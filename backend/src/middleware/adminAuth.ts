@@ -0,0 +1,27 @@
+import crypto from 'crypto'
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+
+/**
+ * Require the X-Admin-Token header to match ADMIN_TOKEN
+ * Without a configured token every admin request is refused
+ */
+export function createAdminAuth(adminToken?: string): RequestHandler {
+  const expected = adminToken ? crypto.createHash('sha256').update(adminToken).digest() : null
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!expected) {
+      res.status(503).json({ message: 'Admin endpoints are disabled. Set ADMIN_TOKEN to enable them.' })
+      return
+    }
+
+    const provided = req.header('X-Admin-Token')
+    // Compare fixed-length hashes so the check takes the same time for any input
+    const providedHash = crypto.createHash('sha256').update(provided || '').digest()
+    if (!provided || !crypto.timingSafeEqual(providedHash, expected)) {
+      res.status(401).json({ message: 'Invalid admin token' })
+      return
+    }
+
+    next()
+  }
+}
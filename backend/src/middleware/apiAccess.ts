@@ -0,0 +1,128 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { AccessConfig } from '../config'
+import { ApiKeyService } from '../db/apiKeys'
+import { ApiKey, QuotaStatus } from '../types'
+
+const WINDOW_MS = 60 * 1000
+// Expired windows are dropped once this many subjects are tracked
+const MAX_TRACKED_SUBJECTS = 10000
+
+/**
+ * Who is calling the API, set on res.locals.client by the access middleware
+ */
+export interface ApiClient {
+  // "key:<id>" for API keys, "ip:<address>" for requests without one
+  subject: string
+  apiKey?: ApiKey
+  dailyQuota: number
+}
+
+/**
+ * Requests per subject in fixed one-minute windows, kept in memory
+ */
+class RateLimiter {
+  private windows = new Map<string, { start: number; count: number }>()
+
+  hit(subject: string, limit: number): { allowed: boolean; retryAfterSeconds: number } {
+    const now = Date.now()
+    let window = this.windows.get(subject)
+    if (!window || now - window.start >= WINDOW_MS) {
+      if (this.windows.size >= MAX_TRACKED_SUBJECTS) this.prune(now)
+      window = { start: now, count: 0 }
+      this.windows.set(subject, window)
+    }
+
+    if (window.count >= limit) {
+      return { allowed: false, retryAfterSeconds: Math.ceil((window.start + WINDOW_MS - now) / 1000) }
+    }
+    window.count++
+    return { allowed: true, retryAfterSeconds: 0 }
+  }
+
+  private prune(now: number): void {
+    for (const [subject, window] of this.windows) {
+      if (now - window.start >= WINDOW_MS) this.windows.delete(subject)
+    }
+  }
+}
+
+/**
+ * The API key from the X-API-Key header or an Authorization: Bearer header
+ */
+function readApiKey(req: Request): string | undefined {
+  const header = req.header('X-API-Key')?.trim()
+  if (header) return header
+
+  const match = req.header('Authorization')?.match(/^Bearer\s+(\S+)/i)
+  return match ? match[1] : undefined
+}
+
+/**
+ * Identify the client by API key, or by IP when keys are optional, and apply its rate limit
+ * An unknown or revoked key is refused even when keys are optional
+ */
+export function createApiAccess(apiKeyService: ApiKeyService, config: AccessConfig): RequestHandler {
+  const limiter = new RateLimiter()
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = readApiKey(req)
+    let client: ApiClient
+    let rateLimit: number
+
+    if (key) {
+      const apiKey = apiKeyService.verify(key)
+      if (!apiKey) {
+        res.status(401).json({ message: 'Invalid or revoked API key' })
+        return
+      }
+      client = { subject: `key:${apiKey.id}`, apiKey, dailyQuota: apiKey.dailyQuota ?? config.keyDailyQuota }
+      rateLimit = apiKey.rateLimitPerMinute ?? config.keyRateLimitPerMinute
+    } else if (config.requireApiKey) {
+      res.status(401).json({ message: 'An API key is required. Send it in the X-API-Key header or as a Bearer token.' })
+      return
+    } else {
+      client = { subject: `ip:${req.ip}`, dailyQuota: config.ipDailyQuota }
+      rateLimit = config.ipRateLimitPerMinute
+    }
+
+    if (rateLimit > 0) {
+      const { allowed, retryAfterSeconds } = limiter.hit(client.subject, rateLimit)
+      if (!allowed) {
+        res.setHeader('Retry-After', String(retryAfterSeconds))
+        res.status(429).json({
+          code: 'rate_limited',
+          message: `Too many requests: the limit is ${rateLimit} per minute. Try again in ${retryAfterSeconds} seconds.`,
+        })
+        return
+      }
+    }
+
+    res.locals.client = client
+    res.locals.chargeQuota = (units: number): QuotaStatus | null =>
+      client.dailyQuota > 0 ? apiKeyService.consumeQuota(client.subject, units, client.dailyQuota) : null
+    next()
+  }
+}
+
+/**
+ * Count analyses against the client's daily quota
+ * Answers 429 and returns false when the quota cannot cover them; requests outside the access middleware are not counted
+ */
+export function chargeQuota(res: Response, units: number): boolean {
+  const charge = res.locals.chargeQuota as ((units: number) => QuotaStatus | null) | undefined
+  const quota = charge?.(units)
+  if (!quota) return true
+
+  res.setHeader('X-Quota-Limit', String(quota.limit))
+  res.setHeader('X-Quota-Remaining', String(Math.max(0, quota.limit - quota.used)))
+  if (quota.allowed) return true
+
+  const left = Math.max(0, quota.limit - quota.used)
+  res.setHeader('Retry-After', String(Math.ceil((Date.parse(quota.resetsAt) - Date.now()) / 1000)))
+  res.status(429).json({
+    code: 'quota_exceeded',
+    message: `Daily quota exceeded: this request needs ${units} ${units === 1 ? 'analysis' : 'analyses'} and ${left} of ${quota.limit} are left today. The quota resets at ${quota.resetsAt}.`,
+    quota,
+  })
+  return false
+}
@@ -0,0 +1,43 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express'
+import { AccountService } from '../db/accounts'
+
+/**
+ * The session token from the X-Session-Token header
+ */
+export function readSessionToken(req: Request): string | undefined {
+  return req.header('X-Session-Token')?.trim() || undefined
+}
+
+/**
+ * Set res.locals.user for requests with a valid X-Session-Token header
+ * Requests without one go on anonymously; an expired or unknown token gets 401 so the client can log out
+ */
+export function createSessionAuth(accountService: AccountService): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const token = readSessionToken(req)
+    if (!token) {
+      next()
+      return
+    }
+
+    const user = accountService.getSessionUser(token)
+    if (!user) {
+      res.status(401).json({ message: 'Session expired. Please log in again.' })
+      return
+    }
+
+    res.locals.user = user
+    next()
+  }
+}
+
+/**
+ * Refuse requests that are not logged in
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction): void {
+  if (!res.locals.user) {
+    res.status(401).json({ message: 'Log in to use this endpoint' })
+    return
+  }
+  next()
+}
@@ -0,0 +1,59 @@
+import dotenv from 'dotenv'
+import Database from 'better-sqlite3'
+import { migrate, migrationStatus, pendingMigrations } from './db/schema'
+
+dotenv.config()
+
+const USAGE = `Usage:
+  npm run migrate
+  npm run migrate -- --dry-run
+  npm run migrate -- --status`
+
+/**
+ * Apply pending database migrations
+ *
+ * Usage: npm run migrate [-- --dry-run | --status]
+ *
+ * --dry-run runs the pending migrations and rolls them back, so nothing changes.
+ * --status lists every migration and when it was applied.
+ */
+function main() {
+  const args = process.argv.slice(2)
+  if (args.length > 1 || (args.length === 1 && !['--dry-run', '--status'].includes(args[0]))) {
+    console.error(USAGE)
+    process.exit(1)
+  }
+
+  const db = new Database(process.env.DATABASE_PATH || './truthmeter.db')
+  try {
+    if (args[0] === '--status') {
+      for (const migration of migrationStatus(db)) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt}` : 'pending'
+        console.log(`${String(migration.version).padStart(4)}  ${migration.name.padEnd(40)}  ${state}`)
+      }
+      return
+    }
+
+    const dryRun = args[0] === '--dry-run'
+    const pending = pendingMigrations(db)
+    if (pending.length === 0) {
+      console.log('Database is up to date')
+      return
+    }
+
+    for (const migration of pending) {
+      console.log(`${dryRun ? 'Would apply' : 'Applying'} ${migration.version} ${migration.name}`)
+    }
+    migrate(db, { dryRun })
+    console.log(dryRun
+      ? `${pending.length} migrations ran without errors and were rolled back`
+      : `Applied ${pending.length} migrations`)
+  } catch (error) {
+    console.error(`Error: ${error instanceof Error ? error.message : error}`)
+    process.exitCode = 1
+  } finally {
+    db.close()
+  }
+}
+
+main()
@@ -0,0 +1,191 @@
+import express, { Router, Request, Response } from 'express'
+import { CredibilityService, parseCredibilityCsv, validateCredibilityEntries } from '../db/credibility'
+import { UsageService } from '../db/usage'
+import { ApiKeyService } from '../db/apiKeys'
+import { CacheService } from '../db/cache'
+import { UsageMeter } from '../services/usage'
+import { createAdminAuth } from '../middleware/adminAuth'
+import { DateRange } from '../types'
+import { validateDateRange } from '../utils/validation'
+
+// Usage reports cover the last 30 days unless a range is given
+const DEFAULT_REPORT_DAYS = 30
+
+/**
+ * Read the from and to query parameters of a usage report, filling in missing ends
+ */
+function parseReportRange(query: Request['query']): { range: Required<DateRange> } | { error: string } {
+  const from = typeof query.from === 'string' ? query.from : undefined
+  const to = typeof query.to === 'string' ? query.to : undefined
+  const parsed = validateDateRange(from || to ? { from, to } : undefined)
+  if ('error' in parsed) return { error: parsed.error.replace(/dateRange\./g, '') }
+
+  const today = new Date().toISOString().substring(0, 10)
+  const end = parsed.dateRange?.to || today
+  const start = parsed.dateRange?.from
+    || new Date(Date.parse(`${end}T00:00:00Z`) - (DEFAULT_REPORT_DAYS - 1) * 24 * 60 * 60 * 1000).toISOString().substring(0, 10)
+  return { range: { from: start, to: end } }
+}
+
+/**
+ * Read an optional per-key limit, which must be a positive whole number
+ */
+function parseKeyLimit(value: unknown, field: string): { limit?: number } | { error: string } {
+  if (value === undefined || value === null) return {}
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    return { error: `${field} must be a positive whole number` }
+  }
+  return { limit: value }
+}
+
+export function createAdminRouter(
+  credibilityService: CredibilityService,
+  usageService: UsageService,
+  usageMeter: UsageMeter,
+  apiKeyService: ApiKeyService,
+  cacheService: CacheService,
+  adminToken?: string
+): Router {
+  const router = Router()
+
+  router.use('/admin', createAdminAuth(adminToken))
+
+  // List the domain credibility registry
+  router.get('/admin/credibility', (req: Request, res: Response) => {
+    const entries = credibilityService.list()
+    res.json({ count: entries.length, entries })
+  })
+
+  // Import registry entries from a JSON array, { entries: [...] } or CSV
+  // ?replace=true swaps the whole registry instead of merging
+  router.post(
+    '/admin/credibility/import',
+    express.text({ type: ['text/csv', 'text/plain'], limit: '5mb' }),
+    (req: Request, res: Response) => {
+      let entries
+      try {
+        if (typeof req.body === 'string') {
+          entries = parseCredibilityCsv(req.body)
+        } else {
+          const raw = Array.isArray(req.body) ? req.body : req.body?.entries
+          if (!Array.isArray(raw)) {
+            res.status(400).json({ message: 'Expected a JSON array of entries, { "entries": [...] } or a CSV body' })
+            return
+          }
+          entries = validateCredibilityEntries(raw)
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Invalid import'
+        res.status(400).json({ message })
+        return
+      }
+
+      if (entries.length === 0) {
+        res.status(400).json({ message: 'Import contains no entries' })
+        return
+      }
+
+      try {
+        const replace = req.query.replace === 'true'
+        const imported = credibilityService.import(entries, replace)
+        console.log(`Imported ${imported} credibility entries${replace ? ' (replaced registry)' : ''}`)
+        res.json({ imported, total: credibilityService.count() })
+      } catch (error) {
+        console.error('Error in /admin/credibility/import:', error)
+        const message = error instanceof Error ? error.message : 'Internal server error'
+        res.status(500).json({ message })
+      }
+    }
+  )
+
+  // Provider usage and estimated cost per UTC day, with today's spend against the budget
+  router.get('/admin/usage/daily', (req: Request, res: Response) => {
+    const parsed = parseReportRange(req.query)
+    if ('error' in parsed) {
+      res.status(400).json({ message: parsed.error })
+      return
+    }
+
+    res.json({ ...parsed.range, budget: usageMeter.budget(), days: usageService.byDay(parsed.range) })
+  })
+
+  // Provider usage and estimated cost per search provider and LLM backend
+  router.get('/admin/usage/providers', (req: Request, res: Response) => {
+    const parsed = parseReportRange(req.query)
+    if ('error' in parsed) {
+      res.status(400).json({ message: parsed.error })
+      return
+    }
+
+    res.json({ ...parsed.range, providers: usageService.byProvider(parsed.range) })
+  })
+
+  // List API keys; only their prefixes are stored, never the keys themselves
+  router.get('/admin/keys', (req: Request, res: Response) => {
+    const keys = apiKeyService.list()
+    res.json({ count: keys.length, keys })
+  })
+
+  // Issue an API key with optional limits that override the defaults
+  // The key is only returned in this response
+  router.post('/admin/keys', (req: Request, res: Response) => {
+    const name = typeof req.body?.name === 'string' ? req.body.name.trim() : ''
+    if (!name) {
+      res.status(400).json({ message: 'name is required' })
+      return
+    }
+
+    const dailyQuota = parseKeyLimit(req.body.dailyQuota, 'dailyQuota')
+    if ('error' in dailyQuota) {
+      res.status(400).json({ message: dailyQuota.error })
+      return
+    }
+    const rateLimit = parseKeyLimit(req.body.rateLimitPerMinute, 'rateLimitPerMinute')
+    if ('error' in rateLimit) {
+      res.status(400).json({ message: rateLimit.error })
+      return
+    }
+
+    const created = apiKeyService.create(name, { dailyQuota: dailyQuota.limit, rateLimitPerMinute: rateLimit.limit })
+    console.log(`Created API key ${created.apiKey.prefix}... (${name})`)
+    res.status(201).json(created)
+  })
+
+  // Revoke an API key; requests with it are refused from now on
+  router.delete('/admin/keys/:id', (req: Request, res: Response) => {
+    if (!apiKeyService.revoke(req.params.id)) {
+      res.status(404).json({ message: 'No active API key with this ID' })
+      return
+    }
+
+    console.log(`Revoked API key ${req.params.id}`)
+    res.status(204).end()
+  })
+
+  // Remove one cached analysis, so the next request for its text runs a new analysis
+  router.delete('/admin/cache/:id', (req: Request, res: Response) => {
+    if (!cacheService.delete(req.params.id)) {
+      res.status(404).json({ message: 'No cached analysis with this ID' })
+      return
+    }
+
+    console.log(`Deleted cached analysis ${req.params.id}`)
+    res.status(204).end()
+  })
+
+  // Remove every cached analysis whose text matches a pattern, where * matches any text
+  // and ? one character, e.g. { "pattern": "*election*" }
+  router.post('/admin/cache/purge', (req: Request, res: Response) => {
+    const pattern = typeof req.body?.pattern === 'string' ? req.body.pattern.trim() : ''
+    if (!pattern) {
+      res.status(400).json({ message: 'pattern is required' })
+      return
+    }
+
+    const purged = cacheService.purge(pattern)
+    console.log(`Purged ${purged} cached analyses matching ${JSON.stringify(pattern)}`)
+    res.json({ purged })
+  })
+
+  return router
+}
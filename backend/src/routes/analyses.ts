@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express'
+import { CacheService } from '../db/cache'
+import { SummaryTranslator } from '../services/summaryTranslator'
+import { BudgetExceededError } from '../services/usage'
+import { chargeQuota } from '../middleware/apiAccess'
+import { getLanguage } from '../utils/languages'
+
+export function createAnalysesRouter(cacheService: CacheService, summaryTranslator: SummaryTranslator): Router {
+  const router = Router()
+
+  // A stored analysis by ID, exactly as it was returned, without running it again
+  router.get('/analyses/:id', (req: Request, res: Response) => {
+    try {
+      const result = cacheService.getShared(req.params.id)
+      if (!result) {
+        res.status(404).json({ message: 'Analysis not found or expired' })
+        return
+      }
+
+      res.json(result)
+    } catch (error) {
+      console.error('Error in /analyses/:id:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(500).json({ message })
+    }
+  })
+
+  // Summary of an analysis in another language, translated the first time it is requested
+  // Only a request that makes the translation counts against the quota
+  router.get('/analyses/:id/translations/:lang', async (req: Request, res: Response) => {
+    try {
+      const language = getLanguage(req.params.lang)
+      if (!language?.translation) {
+        res.status(400).json({ message: `Translation to "${req.params.lang}" is not supported` })
+        return
+      }
+
+      if (summaryTranslator.needsTranslation(req.params.id, language.code) && !chargeQuota(res, 1)) return
+
+      const translation = await summaryTranslator.translate(req.params.id, language.code)
+      if (!translation) {
+        res.status(404).json({ message: 'Analysis not found' })
+        return
+      }
+
+      res.json(translation)
+    } catch (error) {
+      console.error('Error in /analyses/:id/translations/:lang:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(error instanceof BudgetExceededError ? 429 : 500).json({ message })
+    }
+  })
+
+  return router
+}
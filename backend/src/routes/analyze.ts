@@ -1,40 +1,152 @@
 import { Router, Request, Response } from 'express'
+import { HistoryService } from '../db/history'
 import { FactCheckerService } from '../services/factChecker'
-import { AnalysisRequest } from '../types'
+import { JobRunner } from '../services/jobRunner'
+import { ArticleFetchError } from '../services/articleFetcher'
+import { BudgetExceededError } from '../services/usage'
+import { chargeQuota } from '../middleware/apiAccess'
+import { AnalysisProgressEvent, AnalysisRequest, AnalysisResult, DateRange, ProgressCallback, User } from '../types'
+import { validateContent, validateDateRange, validateUrl } from '../utils/validation'
 
-export function createAnalyzeRouter(factChecker: FactCheckerService): Router {
+type AnalysisInput =
+  | (({ content: string } | { url: string }) & { dateRange?: DateRange; forceRefresh: boolean })
+  | { error: string }
+
+/**
+ * Read either contentText or url, and the optional dateRange and forceRefresh, from the request body
+ */
+function parseAnalysisInput(body: AnalysisRequest): AnalysisInput {
+  if (body?.url !== undefined && body?.contentText !== undefined) {
+    return { error: 'Send either contentText or url, not both' }
+  }
+
+  const input = body?.url !== undefined ? validateUrl(body.url) : validateContent(body?.contentText)
+  if ('error' in input) return input
+
+  const range = validateDateRange(body.dateRange)
+  if ('error' in range) return range
+
+  if (body.forceRefresh !== undefined && typeof body.forceRefresh !== 'boolean') {
+    return { error: 'forceRefresh must be true or false' }
+  }
+
+  return { ...input, dateRange: range.dateRange, forceRefresh: body.forceRefresh === true }
+}
+
+/**
+ * Status code for a failed analysis
+ * Pages that cannot be fetched are a problem with the submitted URL, not the server
+ */
+function errorStatus(error: unknown): number {
+  if (error instanceof ArticleFetchError) return 422
+  if (error instanceof BudgetExceededError) return 429
+  return 500
+}
+
+/**
+ * Add a finished analysis to the history of the logged-in user, if any
+ */
+function recordHistory(historyService: HistoryService, res: Response, result: AnalysisResult): void {
+  const user = res.locals.user as User | undefined
+  if (user) historyService.addResult(user.id, result)
+}
+
+export function createAnalyzeRouter(
+  factChecker: FactCheckerService,
+  jobRunner: JobRunner,
+  historyService: HistoryService
+): Router {
   const router = Router()
 
   router.post('/analyze', async (req: Request, res: Response) => {
     try {
-      const { contentText } = req.body as AnalysisRequest
+      const body = req.body as AnalysisRequest
 
       // Validate input
-      if (!contentText || typeof contentText !== 'string') {
-        res.status(400).json({ message: 'Content text is required' })
+      const input = parseAnalysisInput(body)
+      if ('error' in input) {
+        res.status(400).json({ message: input.error })
         return
       }
 
-      const trimmed = contentText.trim()
-      if (trimmed.length < 10) {
-        res.status(400).json({ message: 'Content must be at least 10 characters' })
-        return
-      }
+      if (!chargeQuota(res, 1)) return
 
-      if (trimmed.length > 2000) {
-        res.status(400).json({ message: 'Content must be less than 2000 characters' })
+      // Queue a background job and let the client poll GET /jobs/:id
+      // The job adds its result to the logged-in user's history when it completes
+      if (body.async === true) {
+        const userId = (res.locals.user as User | undefined)?.id
+        const job = 'url' in input
+          ? jobRunner.submit(input.url, input.url, input.dateRange, input.forceRefresh, userId)
+          : jobRunner.submit(input.content, undefined, input.dateRange, input.forceRefresh, userId)
+        res.status(202).location(`jobs/${job.id}`).json({ jobId: job.id, status: job.status })
         return
       }
 
-      // Analyze the post
-      const result = await factChecker.analyzePost(trimmed)
+      // Analyze the post, fetching the article first for URLs
+      const result = 'url' in input
+        ? await factChecker.analyzeUrl(input.url, undefined, input.dateRange, input.forceRefresh)
+        : await factChecker.analyzePost(input.content, undefined, undefined, input.dateRange, input.forceRefresh)
 
+      recordHistory(historyService, res, result)
       res.json(result)
     } catch (error) {
       console.error('Error in /analyze:', error)
 
       const message = error instanceof Error ? error.message : 'Internal server error'
-      res.status(500).json({ message })
+      res.status(errorStatus(error)).json({ message })
+    }
+  })
+
+  // Same analysis as /analyze, streamed as Server-Sent Events:
+  // "progress" events for each pipeline stage, then one "result" or "error" event
+  router.post('/analyze/stream', async (req: Request, res: Response) => {
+    const input = parseAnalysisInput(req.body as AnalysisRequest)
+    if ('error' in input) {
+      res.status(400).json({ message: input.error })
+      return
+    }
+
+    // Quota errors are answered as plain JSON before the stream starts
+    if (!chargeQuota(res, 1)) return
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      // Stop reverse proxies (nginx) from buffering the stream
+      'X-Accel-Buffering': 'no',
+    })
+
+    let closed = false
+    res.on('close', () => {
+      closed = true
+    })
+
+    const send = (event: string, data: unknown) => {
+      if (closed) return
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    }
+
+    // Comment lines keep idle connections open while long LLM calls run
+    const heartbeat = setInterval(() => {
+      if (!closed) res.write(': keep-alive\n\n')
+    }, 15000)
+
+    try {
+      const onProgress: ProgressCallback = (event: AnalysisProgressEvent) => send('progress', event)
+      const result = 'url' in input
+        ? await factChecker.analyzeUrl(input.url, onProgress, input.dateRange, input.forceRefresh)
+        : await factChecker.analyzePost(input.content, onProgress, undefined, input.dateRange, input.forceRefresh)
+      recordHistory(historyService, res, result)
+      send('result', result)
+    } catch (error) {
+      console.error('Error in /analyze/stream:', error)
+
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      send('error', { message, status: errorStatus(error) })
+    } finally {
+      clearInterval(heartbeat)
+      res.end()
     }
   })
 
@@ -0,0 +1,66 @@
+import { Router, Request, Response } from 'express'
+import { AccountService, EmailTakenError } from '../db/accounts'
+import { readSessionToken, requireUser } from '../middleware/session'
+import { validateCredentials } from '../utils/validation'
+
+export function createAuthRouter(accountService: AccountService): Router {
+  const router = Router()
+
+  // Create an account; the response holds a session token for it
+  router.post('/auth/register', async (req: Request, res: Response) => {
+    const credentials = validateCredentials(req.body)
+    if ('error' in credentials) {
+      res.status(400).json({ message: credentials.error })
+      return
+    }
+
+    try {
+      const session = await accountService.register(credentials.email, credentials.password)
+      console.log(`Registered user ${session.user.id}`)
+      res.status(201).json(session)
+    } catch (error) {
+      if (error instanceof EmailTakenError) {
+        res.status(409).json({ message: error.message })
+        return
+      }
+      console.error('Error in /auth/register:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(500).json({ message })
+    }
+  })
+
+  // Start a session with an email and password
+  router.post('/auth/login', async (req: Request, res: Response) => {
+    const credentials = validateCredentials(req.body)
+    if ('error' in credentials) {
+      res.status(400).json({ message: credentials.error })
+      return
+    }
+
+    try {
+      const session = await accountService.login(credentials.email, credentials.password)
+      if (!session) {
+        res.status(401).json({ message: 'Wrong email or password' })
+        return
+      }
+      res.json(session)
+    } catch (error) {
+      console.error('Error in /auth/login:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(500).json({ message })
+    }
+  })
+
+  // End the session of the X-Session-Token header
+  router.post('/auth/logout', requireUser, (req: Request, res: Response) => {
+    accountService.logout(readSessionToken(req)!)
+    res.status(204).end()
+  })
+
+  // The logged-in user
+  router.get('/auth/me', requireUser, (req: Request, res: Response) => {
+    res.json({ user: res.locals.user })
+  })
+
+  return router
+}
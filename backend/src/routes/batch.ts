@@ -0,0 +1,235 @@
+import express, { Router, Request, Response } from 'express'
+import { JobService } from '../db/jobs'
+import { CacheService } from '../db/cache'
+import { JobRunner } from '../services/jobRunner'
+import { chargeQuota } from '../middleware/apiAccess'
+import { getVerdict } from '../services/scoring'
+import { AnalysisJob, BatchReportRow, JobStatus, User } from '../types'
+import { parseCsvRecords, toCsv } from '../utils/csv'
+import { validateContent } from '../utils/validation'
+
+const MAX_BATCH_ITEMS = 200
+const TOP_SOURCES = 3
+
+// Column names accepted for the statement text in CSV and JSON objects
+const TEXT_FIELDS = ['contenttext', 'content_text', 'text', 'content', 'statement', 'claim']
+
+function textOf(item: unknown): unknown {
+  if (typeof item === 'string') return item
+  if (item && typeof item === 'object') {
+    for (const [key, value] of Object.entries(item)) {
+      if (TEXT_FIELDS.includes(key.toLowerCase())) return value
+    }
+  }
+  return undefined
+}
+
+/**
+ * Read the submitted items from a JSON, CSV, JSONL or plain text body
+ */
+function parseBatchItems(req: Request): unknown[] {
+  if (typeof req.body !== 'string') {
+    const items = Array.isArray(req.body) ? req.body : req.body?.items
+    if (!Array.isArray(items)) {
+      throw new Error('Expected a JSON array of texts or { "items": [...] }')
+    }
+    return items.map(textOf)
+  }
+
+  if (req.is('text/csv')) {
+    const records = parseCsvRecords(req.body)
+    if (records.length > 0 && !Object.keys(records[0]).some(key => TEXT_FIELDS.includes(key))) {
+      throw new Error(`CSV needs a header row with a text column (${TEXT_FIELDS.join(', ')})`)
+    }
+    return records.map(textOf)
+  }
+
+  const lines = req.body.split(/\r?\n/).filter((line: string) => line.trim() !== '')
+
+  if (req.is('application/x-ndjson') || req.is('application/jsonl')) {
+    return lines.map((line: string, index: number) => {
+      try {
+        return textOf(JSON.parse(line))
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`)
+      }
+    })
+  }
+
+  // Plain text: one statement per line
+  return lines
+}
+
+function buildReportRow(job: AnalysisJob, cacheService: CacheService): BatchReportRow {
+  const row: BatchReportRow = {
+    index: job.batchIndex ?? 0,
+    jobId: job.id,
+    status: job.status,
+    contentText: job.contentText,
+    topSources: [],
+    error: job.error,
+  }
+
+  const result = job.analysisId ? cacheService.getShared(job.analysisId) : null
+  if (!result) {
+    if (job.status === 'completed') row.error = 'The result of this item has expired'
+    return row
+  }
+
+  // Most reliable outlets first, unknown domains after mixed-reliability ones
+  const tierOf = (source: typeof result.sources[number]) => source.outlet?.reliabilityTier ?? 3.5
+  const topSources = [...result.sources]
+    .filter(source => source.relevance !== 'neutral')
+    .sort((a, b) => tierOf(a) - tierOf(b))
+    .slice(0, TOP_SOURCES)
+
+  return {
+    ...row,
+    accuracyScore: result.accuracyScore,
+    verdict: getVerdict(result.accuracyScore),
+    agreementScore: result.agreementScore,
+    disagreementScore: result.disagreementScore,
+    neutralScore: result.neutralScore,
+    summary: result.summary,
+    topSources: topSources.map(source => ({
+      url: source.url,
+      title: source.title,
+      relevance: source.relevance,
+      outlet: source.outlet?.name,
+    })),
+    analysisId: result.id,
+  }
+}
+
+function reportToCsv(rows: BatchReportRow[]): string {
+  return toCsv([
+    ['index', 'status', 'verdict', 'accuracy_score', 'agreement_score', 'disagreement_score', 'neutral_score', 'content_text', 'summary', 'top_sources', 'analysis_id', 'error'],
+    ...rows.map(row => [
+      row.index + 1,
+      row.status,
+      row.verdict,
+      row.accuracyScore,
+      row.agreementScore,
+      row.disagreementScore,
+      row.neutralScore,
+      row.contentText,
+      row.summary,
+      row.topSources.map(source => `${source.outlet || source.title} (${source.relevance}): ${source.url}`).join(' | '),
+      row.analysisId,
+      row.error,
+    ]),
+  ])
+}
+
+export function createBatchRouter(jobRunner: JobRunner, jobService: JobService, cacheService: CacheService): Router {
+  const router = Router()
+
+  // Queue a list of texts for analysis
+  router.post(
+    '/batch',
+    express.text({ type: ['text/csv', 'text/plain', 'application/x-ndjson', 'application/jsonl'], limit: '2mb' }),
+    (req: Request, res: Response) => {
+      try {
+        let items: unknown[]
+        try {
+          items = parseBatchItems(req)
+        } catch (error) {
+          res.status(400).json({ message: error instanceof Error ? error.message : 'Invalid batch' })
+          return
+        }
+
+        if (items.length === 0) {
+          res.status(400).json({ message: 'Batch contains no items' })
+          return
+        }
+
+        if (items.length > MAX_BATCH_ITEMS) {
+          res.status(400).json({ message: `Batch can contain at most ${MAX_BATCH_ITEMS} items` })
+          return
+        }
+
+        const texts: string[] = []
+        for (let i = 0; i < items.length; i++) {
+          const validation = validateContent(items[i])
+          if ('error' in validation) {
+            res.status(400).json({ message: `Item ${i + 1}: ${validation.error}` })
+            return
+          }
+          texts.push(validation.content)
+        }
+
+        // Each item counts as one analysis
+        if (!chargeQuota(res, texts.length)) return
+
+        // Results go into the logged-in user's history as items complete
+        const { batchId } = jobRunner.submitBatch(texts, (res.locals.user as User | undefined)?.id)
+        console.log(`Batch ${batchId} queued with ${texts.length} items`)
+
+        res.status(202).location(`batch/${batchId}`).json({
+          batchId,
+          total: texts.length,
+          status: 'queued',
+        })
+      } catch (error) {
+        console.error('Error in /batch:', error)
+        const message = error instanceof Error ? error.message : 'Internal server error'
+        res.status(500).json({ message })
+      }
+    }
+  )
+
+  // Batch progress with one row per item
+  router.get('/batch/:id', (req: Request, res: Response) => {
+    try {
+      const jobs = jobService.listBatch(req.params.id)
+      if (jobs.length === 0) {
+        res.status(404).json({ message: 'Batch not found' })
+        return
+      }
+
+      const counts: Record<JobStatus, number> = { queued: 0, running: 0, completed: 0, failed: 0 }
+      jobs.forEach(job => counts[job.status]++)
+      const done = counts.completed + counts.failed === jobs.length
+
+      res.json({
+        batchId: req.params.id,
+        status: done ? 'completed' : 'running',
+        total: jobs.length,
+        counts,
+        items: jobs.map(job => buildReportRow(job, cacheService)),
+      })
+    } catch (error) {
+      console.error('Error in /batch/:id:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(500).json({ message })
+    }
+  })
+
+  // Downloadable report, ?format=csv (default) or json
+  router.get('/batch/:id/report', (req: Request, res: Response) => {
+    try {
+      const format = req.query.format === 'json' ? 'json' : 'csv'
+      const jobs = jobService.listBatch(req.params.id)
+      if (jobs.length === 0) {
+        res.status(404).json({ message: 'Batch not found' })
+        return
+      }
+
+      const rows = jobs.map(job => buildReportRow(job, cacheService))
+      const filename = `truthmeter-batch-${req.params.id}.${format}`
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`)
+
+      if (format === 'json') {
+        res.json(rows)
+      } else {
+        res.type('text/csv').send(reportToCsv(rows))
+      }
+    } catch (error) {
+      console.error('Error in /batch/:id/report:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(500).json({ message })
+    }
+  })
+
+  return router
+}
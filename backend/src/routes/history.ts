@@ -0,0 +1,73 @@
+import { Router, Request, Response } from 'express'
+import { HistoryService } from '../db/history'
+import { requireUser } from '../middleware/session'
+import { User } from '../types'
+import { validateHistoryEntries } from '../utils/validation'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+// Local history holds 20 items; the margin covers older clients
+const MAX_IMPORT_ITEMS = 100
+
+/**
+ * Read a non-negative whole number query parameter
+ */
+function parseCount(value: unknown, fallback: number): number | null {
+  if (value === undefined) return fallback
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null
+  return parseInt(value, 10)
+}
+
+export function createHistoryRouter(historyService: HistoryService): Router {
+  const router = Router()
+
+  router.use('/history', requireUser)
+
+  // The user's analyses, newest first, in pages of ?limit= items starting at ?offset=
+  router.get('/history', (req: Request, res: Response) => {
+    const limit = parseCount(req.query.limit, DEFAULT_PAGE_SIZE)
+    const offset = parseCount(req.query.offset, 0)
+    if (limit === null || limit < 1 || limit > MAX_PAGE_SIZE) {
+      res.status(400).json({ message: `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}` })
+      return
+    }
+    if (offset === null) {
+      res.status(400).json({ message: 'offset must be a whole number' })
+      return
+    }
+
+    const user = res.locals.user as User
+    res.json(historyService.list(user.id, limit, offset))
+  })
+
+  // Merge the history kept in a browser into the account, keeping the newest entry of each text
+  router.post('/history/import', (req: Request, res: Response) => {
+    const validation = validateHistoryEntries(req.body?.items, MAX_IMPORT_ITEMS)
+    if ('error' in validation) {
+      res.status(400).json({ message: validation.error })
+      return
+    }
+
+    const user = res.locals.user as User
+    const total = historyService.import(user.id, validation.entries)
+    res.json({ imported: validation.entries.length, total })
+  })
+
+  // Remove one analysis from the history
+  router.delete('/history/:analysisId', (req: Request, res: Response) => {
+    const user = res.locals.user as User
+    if (!historyService.remove(user.id, req.params.analysisId)) {
+      res.status(404).json({ message: 'History item not found' })
+      return
+    }
+    res.status(204).end()
+  })
+
+  // Clear the whole history
+  router.delete('/history', (req: Request, res: Response) => {
+    const user = res.locals.user as User
+    res.json({ deleted: historyService.clear(user.id) })
+  })
+
+  return router
+}
@@ -0,0 +1,40 @@
+import { Router, Request, Response } from 'express'
+import { JobService } from '../db/jobs'
+import { CacheService } from '../db/cache'
+
+export function createJobsRouter(jobService: JobService, cacheService: CacheService): Router {
+  const router = Router()
+
+  // Get job status, with the analysis result once the job has completed
+  router.get('/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const found = jobService.get(req.params.id)
+
+      if (!found) {
+        res.status(404).json({ message: 'Job not found' })
+        return
+      }
+      // Who submitted the job is not shown to whoever polls it
+      const { userId, ...job } = found
+
+      if (job.status !== 'completed' || !job.analysisId) {
+        res.json(job)
+        return
+      }
+
+      const result = cacheService.getShared(job.analysisId)
+      if (!result) {
+        res.status(410).json({ ...job, message: 'The result of this job has expired' })
+        return
+      }
+
+      res.json({ ...job, result })
+    } catch (error) {
+      console.error('Error in /jobs/:id:', error)
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      res.status(500).json({ message })
+    }
+  })
+
+  return router
+}
@@ -0,0 +1,311 @@
+import dns from 'dns'
+import http from 'http'
+import https from 'https'
+import net from 'net'
+import zlib from 'zlib'
+import { Readable } from 'stream'
+import { extractArticle } from '../utils/html'
+
+// Text sent to the analysis is cut at a paragraph boundary below this length
+export const MAX_ARTICLE_CHARS = 8000
+const MIN_ARTICLE_CHARS = 50
+
+export interface ArticleFetchOptions {
+  timeoutMs: number
+  maxBytes: number
+  maxRedirects: number
+}
+
+export interface FetchedArticle {
+  url: string
+  title?: string
+  author?: string
+  publishedDate?: string
+  siteName?: string
+  text: string
+  truncated: boolean
+}
+
+/**
+ * The URL could not be fetched or did not contain an article
+ * These are problems with the submitted URL, not server errors
+ */
+export class ArticleFetchError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ArticleFetchError'
+  }
+}
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((total, part) => total * 256 + parseInt(part, 10), 0)
+}
+
+// Loopback, private, link-local, carrier-grade NAT, benchmarking, multicast and reserved ranges
+const BLOCKED_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]
+
+/**
+ * Whether an IP address points somewhere the server must not fetch from
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const value = ipv4ToNumber(address)
+    return BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+      const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0
+      return ((value & mask) >>> 0) === ((ipv4ToNumber(base) & mask) >>> 0)
+    })
+  }
+
+  if (net.isIPv6(address)) {
+    const normalized = address.toLowerCase()
+
+    // IPv4-mapped and IPv4-compatible addresses (::ffff:10.0.0.1)
+    const mapped = normalized.match(/^::(?:ffff:)?(\d+\.\d+\.\d+\.\d+)$/)
+    if (mapped) return isPrivateAddress(mapped[1])
+
+    const hextets = normalized.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+    if (hextets) {
+      const high = parseInt(hextets[1], 16)
+      const low = parseInt(hextets[2], 16)
+      return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`)
+    }
+
+    return (
+      normalized === '::' ||
+      normalized === '::1' ||
+      /^f[cd]/.test(normalized) ||      // unique local fc00::/7
+      /^fe[89ab]/.test(normalized) ||   // link-local fe80::/10
+      /^ff/.test(normalized) ||         // multicast
+      normalized.startsWith('64:ff9b:') || // NAT64
+      normalized.startsWith('2001:db8:')   // documentation
+    )
+  }
+
+  return true
+}
+
+/**
+ * DNS lookup that refuses hostnames resolving to private addresses
+ * Checked at connection time, so DNS rebinding cannot swap in a private address after validation
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '')
+      return
+    }
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address))
+    if (blocked || addresses.length === 0) {
+      callback(new ArticleFetchError(`Refusing to fetch ${hostname}: it resolves to a private or reserved address`), '')
+      return
+    }
+
+    if (options.all) {
+      callback(null, addresses)
+    } else {
+      callback(null, addresses[0].address, addresses[0].family)
+    }
+  })
+}
+
+/**
+ * Check that a URL may be fetched before connecting
+ */
+function assertFetchableUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ArticleFetchError('Only http and https URLs can be fetched')
+  }
+  if (url.username || url.password) {
+    throw new ArticleFetchError('URLs with credentials are not allowed')
+  }
+
+  // IP literals skip DNS, so they are checked here
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new ArticleFetchError('Refusing to fetch a private or reserved address')
+  }
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    throw new ArticleFetchError('Refusing to fetch a private or reserved address')
+  }
+}
+
+interface RawResponse {
+  status: number
+  location?: string
+  contentType: string
+  body: Buffer
+}
+
+/**
+ * Cut text at the last paragraph break before maxChars
+ */
+function truncateText(text: string, maxChars: number): { text: string; truncated: boolean } {
+  if (text.length <= maxChars) return { text, truncated: false }
+
+  const cut = text.lastIndexOf('\n\n', maxChars)
+  return { text: text.substring(0, cut > maxChars / 2 ? cut : maxChars).trim(), truncated: true }
+}
+
+/**
+ * Fetches public web pages and extracts the article they contain
+ * Requests are limited in time, size and redirects, and never reach private networks
+ */
+export class ArticleFetcher {
+  constructor(private options: ArticleFetchOptions) {}
+
+  private request(url: URL, deadline: number): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http
+      const remaining = deadline - Date.now()
+      if (remaining <= 0) {
+        reject(new ArticleFetchError('Timed out fetching the URL'))
+        return
+      }
+
+      const tooLarge = `The page is larger than ${Math.round(this.options.maxBytes / 1024)} KB`
+      let settled = false
+      const finish = (error: Error | null, response?: RawResponse) => {
+        if (settled) return
+        settled = true
+        clearTimeout(timer)
+        if (error) {
+          req.destroy()
+          reject(error)
+        } else {
+          resolve(response!)
+        }
+      }
+
+      const req = client.get(url, {
+        lookup: safeLookup,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; TruthMeterBot/1.0; +https://github.com/ramialbatal/TruthMeter)',
+          Accept: 'text/html,application/xhtml+xml;q=0.9,text/plain;q=0.8',
+          'Accept-Encoding': 'gzip, deflate, br',
+        },
+      }, (res) => {
+        const status = res.statusCode || 0
+        const contentType = String(res.headers['content-type'] || '')
+
+        if (status >= 300 && status < 400) {
+          res.resume()
+          finish(null, { status, location: res.headers.location, contentType, body: Buffer.alloc(0) })
+          return
+        }
+
+        const declaredLength = parseInt(String(res.headers['content-length'] || '0'), 10)
+        if (declaredLength > this.options.maxBytes) {
+          finish(new ArticleFetchError(tooLarge))
+          return
+        }
+
+        // Decompress, counting decompressed bytes so compressed bombs hit the size cap too
+        const encoding = String(res.headers['content-encoding'] || '').toLowerCase()
+        let stream: Readable = res
+        if (encoding === 'gzip' || encoding === 'x-gzip') stream = res.pipe(zlib.createGunzip())
+        else if (encoding === 'deflate') stream = res.pipe(zlib.createInflate())
+        else if (encoding === 'br') stream = res.pipe(zlib.createBrotliDecompress())
+
+        const chunks: Buffer[] = []
+        let size = 0
+        stream.on('data', (chunk: Buffer) => {
+          size += chunk.length
+          if (size > this.options.maxBytes) {
+            stream.destroy()
+            finish(new ArticleFetchError(tooLarge))
+            return
+          }
+          chunks.push(chunk)
+        })
+        stream.on('end', () => finish(null, { status, contentType, body: Buffer.concat(chunks) }))
+        stream.on('error', () => finish(new ArticleFetchError('Could not read the page')))
+      })
+
+      // One deadline covers connecting, redirects and reading the body
+      const timer = setTimeout(() => finish(new ArticleFetchError('Timed out fetching the URL')), remaining)
+
+      req.on('error', (error) => {
+        finish(error instanceof ArticleFetchError
+          ? error
+          : new ArticleFetchError(`Could not fetch the URL: ${(error as NodeJS.ErrnoException).code || error.message}`))
+      })
+    })
+  }
+
+  private decode(body: Buffer, contentType: string): string {
+    const headerCharset = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+    const metaCharset = body.subarray(0, 2048).toString('latin1').match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1]
+
+    try {
+      return new TextDecoder(headerCharset || metaCharset || 'utf-8').decode(body)
+    } catch {
+      return new TextDecoder('utf-8').decode(body)
+    }
+  }
+
+  /**
+   * Fetch a URL, following redirects, and extract its article
+   */
+  async fetchArticle(rawUrl: string, maxChars: number = MAX_ARTICLE_CHARS): Promise<FetchedArticle> {
+    let url: URL
+    try {
+      url = new URL(rawUrl)
+    } catch {
+      throw new ArticleFetchError('Invalid URL')
+    }
+
+    const deadline = Date.now() + this.options.timeoutMs
+    let response: RawResponse
+
+    for (let redirects = 0; ; redirects++) {
+      assertFetchableUrl(url)
+      response = await this.request(url, deadline)
+
+      if (response.status < 300 || response.status >= 400) break
+      if (!response.location) {
+        throw new ArticleFetchError(`The URL redirected (HTTP ${response.status}) without a location`)
+      }
+      if (redirects >= this.options.maxRedirects) {
+        throw new ArticleFetchError(`Too many redirects (more than ${this.options.maxRedirects})`)
+      }
+      url = new URL(response.location, url)
+    }
+
+    if (response.status >= 400) {
+      throw new ArticleFetchError(`The page returned HTTP ${response.status}`)
+    }
+
+    const mimeType = response.contentType.split(';')[0].trim().toLowerCase()
+    if (mimeType && !['text/html', 'application/xhtml+xml', 'text/plain'].includes(mimeType)) {
+      throw new ArticleFetchError(`Unsupported content type: ${mimeType}`)
+    }
+
+    const body = this.decode(response.body, response.contentType)
+    const article = mimeType === 'text/plain' ? { text: body.trim() } : extractArticle(body)
+
+    if (article.text.length < MIN_ARTICLE_CHARS) {
+      throw new ArticleFetchError('Could not find article text on this page')
+    }
+
+    const { text, truncated } = truncateText(article.text, maxChars)
+    console.log(`Fetched article from ${url.hostname}: ${text.length} characters${truncated ? ' (truncated)' : ''}`)
+
+    return { ...article, url: url.toString(), text, truncated }
+  }
+}
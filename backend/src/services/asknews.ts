@@ -1,3 +1,9 @@
+import { SearchResult } from '../types'
+import { DEFAULT_RESILIENCE, ResilienceConfig, ResilientCaller, providerErrorFromResponse } from './resilience'
+import { UsageMeter } from './usage'
+import { normalizePublishedDate } from '../utils/dates'
+import { SearchOptions, SearchProvider } from './searchProvider'
+
 export interface AskNewsArticle {
   article_id: string
   url: string
@@ -35,19 +41,27 @@ export interface AskNewsSearchParams {
   to_date?: string
 }
 
-export class AskNewsService {
+export class AskNewsService implements SearchProvider {
+  readonly name = 'asknews'
   private clientId: string
   private clientSecret: string
   private apiUrl = 'https://api.asknews.app/v1'
   private accessToken: string | null = null
   private tokenExpiry: number = 0
-
-  constructor(clientId: string, clientSecret: string) {
+  private caller: ResilientCaller
+
+  constructor(
+    clientId: string,
+    clientSecret: string,
+    resilience: ResilienceConfig = DEFAULT_RESILIENCE,
+    private meter?: UsageMeter
+  ) {
     if (!clientId || !clientSecret) {
       throw new Error('ASKNEWS_CLIENT_ID and ASKNEWS_CLIENT_SECRET are required')
     }
     this.clientId = clientId
     this.clientSecret = clientSecret
+    this.caller = new ResilientCaller(this.name, resilience)
   }
 
   /**
@@ -61,24 +75,26 @@ export class AskNewsService {
     }
 
     try {
-      const response = await fetch('https://api.asknews.app/oauth/token', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          grant_type: 'client_credentials',
-          client_id: this.clientId,
-          client_secret: this.clientSecret,
-        }),
+      const data = await this.caller.call('authenticate', async signal => {
+        const response = await fetch('https://api.asknews.app/oauth/token', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_id: this.clientId,
+            client_secret: this.clientSecret,
+          }),
+          signal,
+        })
+
+        if (!response.ok) {
+          throw await providerErrorFromResponse(this.name, response, 'AskNews OAuth')
+        }
+
+        return await response.json()
       })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`AskNews OAuth error: ${response.status} - ${error}`)
-      }
-
-      const data = await response.json()
       this.accessToken = data.access_token
       // Set expiry to 5 minutes before actual expiry for safety
       this.tokenExpiry = now + ((data.expires_in - 300) * 1000)
@@ -113,21 +129,25 @@ export class AskNewsService {
 
       console.log(`AskNews: Searching for "${params.query}" with ${params.n_articles || 10} articles...`)
 
-      const response = await fetch(`${this.apiUrl}/news/search`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(requestBody),
+      const startTime = Date.now()
+      const data = await this.caller.call('search', async signal => {
+        const response = await fetch(`${this.apiUrl}/news/search`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(requestBody),
+          signal,
+        })
+
+        if (!response.ok) {
+          throw await providerErrorFromResponse(this.name, response, 'AskNews API')
+        }
+
+        return await response.json()
       })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`AskNews API error: ${response.status} - ${error}`)
-      }
-
-      const data = await response.json()
+      this.meter?.recordSearch(this.name, 'search', 1, Date.now() - startTime)
 
       // Handle different response formats
       let articles: AskNewsArticle[] = []
@@ -155,21 +175,17 @@ export class AskNewsService {
   }
 
   /**
-   * Convert AskNews articles to Tavily-compatible format for testing
+   * Convert AskNews articles to the shared search result shape
    */
-  convertToTavilyFormat(articles: AskNewsArticle[]): Array<{
-    url: string
-    title: string
-    content: string
-    score: number
-    published_date?: string
-  }> {
+  toSearchResults(articles: AskNewsArticle[]): SearchResult[] {
     return articles.map((article, index) => ({
       url: article.url,
       title: article.headline || 'No title',
-      content: article.summary || '',
-      score: 1 - (index * 0.01), // Simulate relevance score (1.0 to 0.0)
-      published_date: article.pub_date,
+      snippet: article.summary || '',
+      score: 1 - (index / articles.length), // AskNews returns no score, rank by position
+      rank: index + 1,
+      provider: this.name,
+      publishedDate: normalizePublishedDate(article.pub_date),
     }))
   }
 
@@ -189,4 +205,21 @@ export class AskNewsService {
       return_type: 'dicts',
     })
   }
+
+  /**
+   * Search news articles relevant to a claim
+   */
+  async searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    const articles = await this.search({
+      query,
+      n_articles: options?.maxResults ?? 30,
+      method: 'nl',
+      ...(options?.language && { languages: [options.language] }),
+      ...(options?.dateRange?.from && { from_date: options.dateRange.from }),
+      ...(options?.dateRange?.to && { to_date: options.dateRange.to }),
+      return_type: 'dicts',
+    })
+
+    return this.toSearchResults(articles)
+  }
 }
@@ -0,0 +1,165 @@
+import { PageCacheService } from '../db/pageCache'
+import { ArticleFetcher } from './articleFetcher'
+import { SearchResult } from '../types'
+
+// Pages are stored and searched up to this length
+const MAX_PAGE_CHARS = 50000
+const MAX_PASSAGE_CHARS = 600
+const MAX_PASSAGES = 3
+const MAX_EVIDENCE_CHARS = 1200
+const FETCH_CONCURRENCY = 4
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was', 'one', 'our', 'out',
+  'has', 'have', 'his', 'how', 'its', 'may', 'new', 'now', 'who', 'did', 'get', 'him', 'she', 'too', 'use',
+  'that', 'with', 'this', 'from', 'they', 'will', 'would', 'there', 'their', 'what', 'about', 'which', 'when',
+  'were', 'been', 'than', 'then', 'them', 'these', 'those', 'into', 'more', 'most', 'some', 'such', 'only',
+  'also', 'very', 'just', 'over', 'after', 'before', 'because', 'while', 'where', 'does', 'each', 'other',
+])
+
+/**
+ * Lowercased content words with simple suffix stemming
+ */
+function terms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOPWORDS.has(word) && (word.length >= 3 || /^\d+$/.test(word)))
+    .map(word => word.length > 5 ? word.replace(/(ing|ed|es|s)$/, '') : word)
+}
+
+/**
+ * Split page text into passages of at most MAX_PASSAGE_CHARS, on paragraph and sentence boundaries
+ */
+function splitPassages(text: string): string[] {
+  const passages: string[] = []
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const trimmed = paragraph.trim()
+    if (!trimmed) continue
+    if (trimmed.length <= MAX_PASSAGE_CHARS) {
+      passages.push(trimmed)
+      continue
+    }
+
+    let current = ''
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      if (current && current.length + sentence.length + 1 > MAX_PASSAGE_CHARS) {
+        passages.push(current)
+        current = ''
+      }
+      current = current ? `${current} ${sentence}` : sentence.substring(0, MAX_PASSAGE_CHARS)
+    }
+    if (current) passages.push(current)
+  }
+
+  return passages
+}
+
+/**
+ * Pick the passages of a page that best match the claim
+ * Passages are scored by the claim terms and term pairs they contain, with numbers
+ * counting extra because they are usually the detail being checked
+ * Returns the best passages in page order, or null if none mention the claim
+ */
+export function selectPassages(claim: string, text: string): string | null {
+  const claimTerms = Array.from(new Set(terms(claim)))
+  if (claimTerms.length === 0) return null
+
+  const claimPairs = new Set<string>()
+  const ordered = terms(claim)
+  for (let i = 0; i < ordered.length - 1; i++) {
+    claimPairs.add(`${ordered[i]} ${ordered[i + 1]}`)
+  }
+
+  const scored = splitPassages(text).map((passage, index) => {
+    const passageTerms = terms(passage)
+    const present = new Set(passageTerms)
+    let score = 0
+    for (const term of claimTerms) {
+      if (present.has(term)) score += /^\d+$/.test(term) ? 1.5 : 1
+    }
+    for (let i = 0; i < passageTerms.length - 1; i++) {
+      if (claimPairs.has(`${passageTerms[i]} ${passageTerms[i + 1]}`)) score += 1
+    }
+    return { passage, index, score }
+  })
+
+  // A passage must share at least two claim terms (or all of a short claim) to count as evidence
+  const minScore = Math.min(2, claimTerms.length)
+  const best = scored
+    .filter(item => item.score >= minScore)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, MAX_PASSAGES)
+    .sort((a, b) => a.index - b.index)
+
+  if (best.length === 0) return null
+
+  const joined = best.map(item => item.passage).join(' … ')
+  return joined.length > MAX_EVIDENCE_CHARS ? `${joined.substring(0, MAX_EVIDENCE_CHARS)}…` : joined
+}
+
+/**
+ * Deep evidence: fetches the top-ranked source pages and attaches the passages most
+ * relevant to the claim, so stance is judged from the page itself rather than the snippet
+ */
+export class EvidenceRetriever {
+  constructor(
+    private articleFetcher: ArticleFetcher,
+    private pageCache: PageCacheService,
+    private maxSources: number
+  ) {}
+
+  /**
+   * Page text from the cache, or fetched and cached
+   */
+  private async getPageText(url: string): Promise<{ text?: string; fromCache: boolean }> {
+    const cached = this.pageCache.get(url)
+    if (cached) return { text: cached.text, fromCache: true }
+
+    try {
+      const article = await this.articleFetcher.fetchArticle(url, MAX_PAGE_CHARS)
+      this.pageCache.set({ url, finalUrl: article.url, title: article.title, text: article.text })
+      return { text: article.text, fromCache: false }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Fetch failed'
+      this.pageCache.set({ url, error: message })
+      return { fromCache: false }
+    }
+  }
+
+  async enrich(claim: string, sources: SearchResult[]): Promise<{ sources: SearchResult[]; pages: number }> {
+    const top = new Set(
+      [...sources]
+        .sort((a, b) => a.rank - b.rank)
+        .slice(0, this.maxSources)
+        .map(source => source.url)
+    )
+    const targets = sources.filter(source => top.has(source.url))
+
+    // Fetch with bounded concurrency
+    const passages = new Map<string, string>()
+    let cacheHits = 0
+    let next = 0
+    const worker = async () => {
+      while (next < targets.length) {
+        const source = targets[next++]
+        const { text, fromCache } = await this.getPageText(source.url)
+        if (fromCache) cacheHits++
+        const selected = text ? selectPassages(claim, text) : null
+        if (selected) passages.set(source.url, selected)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(FETCH_CONCURRENCY, targets.length) }, worker))
+
+    console.log(`Deep evidence: ${passages.size} of ${targets.length} top pages had relevant passages (${cacheHits} from page cache)`)
+
+    return {
+      sources: sources.map(source => {
+        const selected = passages.get(source.url)
+        return selected ? { ...source, passages: selected } : source
+      }),
+      pages: passages.size,
+    }
+  }
+}
@@ -1,14 +1,74 @@
 import { v4 as uuidv4 } from 'uuid'
-import { SerperService } from './serper'
+import { SearchProvider } from './searchProvider'
 import { OpenAIService } from './openai'
+import { LanguageDetectionResult, LanguageDetectorService } from './languageDetector'
 import { CacheService } from '../db/cache'
-import { AnalysisResult } from '../types'
+import { CredibilityService } from '../db/credibility'
+import { ArticleFetcher } from './articleFetcher'
+import { EvidenceRetriever } from './evidenceRetriever'
+import { ALGORITHM_VERSION, rollupClaimScores, scoreEvidence, staleEvidence } from './scoring'
+import { clusterSources } from './similarity'
+import { BudgetExceededError, UsageMeter } from './usage'
+import { EvidenceClock, systemClock } from './replay'
+import {
+  AnalysisResult,
+  AnalysisWarning,
+  CategorizedSource,
+  ClaimResult,
+  ContentOrigin,
+  DateRange,
+  Evidence,
+  ExtractedClaim,
+  ProgressCallback,
+  SourceClusterMembership,
+} from '../types'
+import { isWithinDateRange } from '../utils/dates'
+import { sameClaimSet } from '../utils/similarity'
+
+// Unknown domains sort between mixed (3) and low (4) reliability outlets
+const UNKNOWN_TIER = 3.5
+
+// Analyses downgraded for the daily budget check one claim against fewer sources
+const DOWNGRADED_MAX_CLAIMS = 1
+const DOWNGRADED_SEARCH_RESULTS = 10
+
+/**
+ * What the claims of one analysis share
+ */
+interface ClaimContext {
+  language: LanguageDetectionResult
+  // Steps that fail without stopping the claim are reported here
+  warnings: AnalysisWarning[]
+  dateRange?: DateRange
+  // Over the daily budget: fewer search results and no deep evidence
+  downgraded: boolean
+  onProgress?: ProgressCallback
+}
+
+/**
+ * What the cache has for a text
+ */
+interface CacheLookup {
+  // Served as is
+  hit?: AnalysisResult
+  // A similar text with different claim terms, served only if it has the same claims
+  candidate?: { result: AnalysisResult; similarity: number }
+}
 
 export class FactCheckerService {
   constructor(
-    private serperService: SerperService,
+    private searchProvider: SearchProvider,
     private openaiService: OpenAIService,
-    private cacheService: CacheService
+    private cacheService: CacheService,
+    private credibilityService: CredibilityService,
+    private articleFetcher: ArticleFetcher,
+    private languageDetector: LanguageDetectorService,
+    // Only set when deep evidence is enabled
+    private evidenceRetriever?: EvidenceRetriever,
+    // Counts provider calls per analysis and enforces the daily budget
+    private usageMeter?: UsageMeter,
+    // When each search's results were retrieved: now for live calls, the recorded time for fixtures
+    private evidenceClock: EvidenceClock = systemClock
   ) {}
 
   /**
@@ -24,52 +84,29 @@ export class FactCheckerService {
   }
 
   /**
-   * Remove duplicate domains from sources
+   * Remove duplicate domains and republished copies of the same report from sources
    */
   private deduplicateSources(sources: AnalysisResult['sources']): AnalysisResult['sources'] {
     const seenDomains = new Set<string>()
+    const seenClusters = new Set<string>()
     const uniqueSources: AnalysisResult['sources'] = []
 
     for (const source of sources) {
       const domain = this.getDomain(source.url)
-      if (!seenDomains.has(domain)) {
-        seenDomains.add(domain)
-        uniqueSources.push(source)
-      }
+      if (seenDomains.has(domain) || (source.cluster && seenClusters.has(source.cluster.id))) continue
+
+      seenDomains.add(domain)
+      if (source.cluster) seenClusters.add(source.cluster.id)
+      uniqueSources.push(source)
     }
 
     return uniqueSources
   }
 
-  async analyzePost(contentText: string): Promise<AnalysisResult> {
-    // Check cache first
-    const cached = this.cacheService.get(contentText)
-    if (cached) {
-      console.log('Cache hit for content:', contentText.substring(0, 50))
-      return cached
-    }
-
-    console.log('Cache miss, performing new analysis...')
-
-    // Search for sources - Serper can get 100 sources in a single fast request!
-    console.log('Searching sources with Serper...')
-    const sources = await this.serperService.searchForFactCheck(contentText)
-
-    if (sources.length === 0) {
-      throw new Error('No sources found for this content. Please try a different query.')
-    }
-
-    console.log(`Found ${sources.length} unique sources, analyzing with OpenAI...`)
-
-    // Analyze with OpenAI
-    const analysis = await this.openaiService.analyzeFactCheck(contentText, sources)
-
-    // Use the percentages calculated by OpenAI based on ALL sources (not just returned ones)
-    let agreementScore = analysis.agreementScore
-    let disagreementScore = analysis.disagreementScore
-    let neutralScore = analysis.neutralScore
-
-    // Ensure they sum to 100% by adjusting the largest value if needed
+  /**
+   * Adjust the largest of three percentages so they sum to exactly 100
+   */
+  private normalizeScores(agreementScore: number, disagreementScore: number, neutralScore: number) {
     const sum = agreementScore + disagreementScore + neutralScore
     if (sum !== 100 && sum > 0) {
       const diff = parseFloat((100 - sum).toFixed(1))
@@ -82,45 +119,418 @@ export class FactCheckerService {
       }
     }
 
-    console.log(`OpenAI analysis based on ${sources.length} sources: Agreement ${agreementScore}%, Disagreement ${disagreementScore}%, Neutral ${neutralScore}%`)
+    return { agreementScore, disagreementScore, neutralScore }
+  }
+
+  /**
+   * Keep up to 10 unique-domain sources per category for display
+   * More reliable outlets are shown first
+   */
+  private selectDisplaySources(sources: AnalysisResult['sources']): AnalysisResult['sources'] {
+    const tierOf = (source: AnalysisResult['sources'][number]) => source.outlet?.reliabilityTier ?? UNKNOWN_TIER
+    sources = [...sources].sort((a, b) => tierOf(a) - tierOf(b))
 
-    // OpenAI categorized all sources - now filter by category and deduplicate
-    const returnedSources = analysis.sources
-    const supporting = returnedSources.filter(s => s.relevance === 'supporting')
-    const contradicting = returnedSources.filter(s => s.relevance === 'contradicting')
-    const neutral = returnedSources.filter(s => s.relevance === 'neutral')
+    const supporting = sources.filter(s => s.relevance === 'supporting')
+    const contradicting = sources.filter(s => s.relevance === 'contradicting')
+    const neutral = sources.filter(s => s.relevance === 'neutral')
 
     // Deduplicate each category (remove duplicate domains)
     const uniqueSupporting = this.deduplicateSources(supporting).slice(0, 10)
     const uniqueContradicting = this.deduplicateSources(contradicting).slice(0, 10)
     const uniqueNeutral = this.deduplicateSources(neutral).slice(0, 10)
 
-    const displaySources = [...uniqueSupporting, ...uniqueContradicting, ...uniqueNeutral]
-
     console.log(`Displaying unique sources per category: ${uniqueSupporting.length} supporting, ${uniqueContradicting.length} contradicting, ${uniqueNeutral.length} neutral`)
-    console.log(`Total unique sources displayed: ${displaySources.length} out of ${sources.length} analyzed`)
     console.log(`Removed ${supporting.length - uniqueSupporting.length + contradicting.length - uniqueContradicting.length + neutral.length - uniqueNeutral.length} duplicate domain sources`)
 
-    // Create result
-    const result: AnalysisResult = {
-      id: uuidv4(),
+    return [...uniqueSupporting, ...uniqueContradicting, ...uniqueNeutral]
+  }
+
+  /**
+   * Attach outlet details from the credibility registry
+   */
+  private withOutlet(source: CategorizedSource): CategorizedSource {
+    const entry = this.credibilityService.lookup(source.url)
+    return entry
+      ? { ...source, outlet: { name: entry.name, type: entry.type, reliabilityTier: entry.reliabilityTier } }
+      : source
+  }
+
+  /**
+   * Search and categorize sources for a single claim
+   * Sources are searched and summarized in the language the content was written in
+   * and, when a date range is given, limited to sources published inside it
+   * Returns null when no sources could be found for the claim
+   */
+  private async checkClaim(extracted: ExtractedClaim, claimIndex: number, context: ClaimContext): Promise<ClaimResult | null> {
+    const { claim, timeSensitive, eventDate } = extracted
+    const { language, warnings, dateRange, downgraded, onProgress } = context
+    console.log(`Searching sources with ${this.searchProvider.name} for claim: ${claim.substring(0, 50)}`)
+    onProgress?.({ stage: 'searching', claimIndex, claim })
+    const searchOptions = {
+      ...this.languageDetector.searchOptionsFor(language),
+      dateRange,
+      ...(downgraded && { maxResults: DOWNGRADED_SEARCH_RESULTS }),
+    }
+    let sources = await this.searchProvider.searchForFactCheck(claim, searchOptions)
+
+    // Not every provider filters by date, so drop dated sources outside the range here too
+    if (dateRange) {
+      sources = sources.filter(source => isWithinDateRange(source.publishedDate, dateRange))
+    }
+    onProgress?.({ stage: 'sources_found', claimIndex, count: sources.length })
+
+    if (sources.length === 0) {
+      console.warn(`No sources found for claim: ${claim.substring(0, 50)}`)
+      return null
+    }
+
+    // Replace snippets of the top sources with the passages of their pages that match the claim
+    if (this.evidenceRetriever && !downgraded) {
+      const enriched = await this.evidenceRetriever.enrich(claim, sources)
+      sources = enriched.sources
+      onProgress?.({ stage: 'evidence_retrieved', claimIndex, pages: enriched.pages })
+    }
+
+    // Group republished copies of the same report so they count as one piece of evidence
+    const clusters = clusterSources(sources)
+    const membership = new Map<string, SourceClusterMembership>()
+    for (const cluster of clusters) {
+      for (const url of cluster.urls) {
+        membership.set(url, { id: cluster.id, size: cluster.urls.length, original: url === cluster.originalUrl })
+      }
+    }
+    console.log(`Grouped ${sources.length} sources into ${clusters.length} independent reports`)
+
+    console.log(`Found ${sources.length} unique sources, analyzing with OpenAI...`)
+
+    // Categorize every source against the claim and attach outlet details from the registry
+    const categorization = await this.openaiService.categorizeSources(claim, sources, (batchSources, batch, totalBatches) => {
+      onProgress?.({
+        stage: 'batch_categorized',
+        claimIndex,
+        batch,
+        totalBatches,
+        sources: batchSources.map(source => {
+          const { url, title, relevance, outlet } = this.withOutlet(source)
+          return { url, title, relevance, outlet }
+        }),
+      })
+    })
+    const categorized = categorization.sources.map(source => {
+      const cluster = membership.get(source.url)
+      return cluster ? { ...this.withOutlet(source), cluster } : this.withOutlet(source)
+    })
+    if (categorization.failedSources > 0) {
+      warnings.push({
+        code: 'sources_skipped',
+        message: `${categorization.failedSources} sources could not be categorized and were left out`,
+        claim,
+        count: categorization.failedSources,
+      })
+    }
+
+    // Accuracy is computed deterministically from the weighted evidence
+    // Recency is measured from the end of the date range, so older windows are not penalized for their age
+    // Otherwise from when the sources were retrieved, which replays take from the recorded fixtures
+    const referenceDate = dateRange?.to ? new Date(`${dateRange.to}T23:59:59Z`) : this.evidenceClock(claim, searchOptions)
+    const { accuracyScore, breakdown } = scoreEvidence(
+      categorized,
+      url => this.credibilityService.credibilityOf(url),
+      referenceDate,
+      timeSensitive
+    )
+    console.log(`Accuracy ${accuracyScore} (support weight ${breakdown.supportWeight}, contradict weight ${breakdown.contradictWeight})`)
+
+    // Calculate percentages based on ALL categorized sources (not just displayed ones),
+    // counting each independent voice once like the accuracy score does
+    const voices = (relevance: Evidence['relevance']) => breakdown.evidence
+      .filter(item => item.relevance === relevance)
+      .reduce((total, item) => total + item.independence, 0)
+    const supportingVoices = voices('supporting')
+    const contradictingVoices = voices('contradicting')
+    const neutralVoices = voices('neutral')
+    const total = supportingVoices + contradictingVoices + neutralVoices || 1
+
+    const scores = this.normalizeScores(
+      parseFloat(((supportingVoices / total) * 100).toFixed(1)),
+      parseFloat(((contradictingVoices / total) * 100).toFixed(1)),
+      parseFloat(((neutralVoices / total) * 100).toFixed(1))
+    )
+
+    console.log(`Categorization based on ${sources.length} sources: Agreement ${scores.agreementScore}%, Disagreement ${scores.disagreementScore}%, Neutral ${scores.neutralScore}%`)
+
+    const supportingCount = categorized.filter(s => s.relevance === 'supporting').length
+    const contradictingCount = categorized.filter(s => s.relevance === 'contradicting').length
+    const neutralCount = categorized.filter(s => s.relevance === 'neutral').length
+    onProgress?.({ stage: 'claim_scored', claimIndex, accuracyScore })
+
+    // The score stands on its own, so a failed summary leaves it empty instead of failing the claim
+    let summary = ''
+    try {
+      summary = await this.openaiService.summarizeClaim(claim, {
+        total: categorized.length,
+        supporting: supportingCount,
+        contradicting: contradictingCount,
+        neutral: neutralCount,
+        accuracyScore,
+      }, language.languageName)
+    } catch (error) {
+      warnings.push({ code: 'summary_unavailable', message: 'The summary for this claim could not be written', claim })
+    }
+
+    return {
+      claim,
+      accuracyScore,
+      ...scores,
+      summary,
+      sources: this.selectDisplaySources(categorized),
+      totalSourcesRetrieved: sources.length,
+      independentReports: clusters.length,
+      clusters: clusters.filter(cluster => cluster.urls.length > 1),
+      scoreBreakdown: breakdown,
+      timeSensitive,
+      eventDate,
+      staleEvidence: staleEvidence(categorized, eventDate),
+    }
+  }
+
+  /**
+   * Fetch an article and fact-check its text, keeping where it came from
+   */
+  async analyzeUrl(
+    url: string,
+    onProgress?: ProgressCallback,
+    dateRange?: DateRange,
+    forceRefresh: boolean = false
+  ): Promise<AnalysisResult> {
+    console.log(`Fetching article: ${url}`)
+    onProgress?.({ stage: 'fetching', url })
+    const article = await this.articleFetcher.fetchArticle(url)
+    onProgress?.({ stage: 'article_fetched', title: article.title, characters: article.text.length })
+
+    return this.analyzePost(article.text, onProgress, {
+      type: 'url',
+      url,
+      finalUrl: article.url,
+      title: article.title,
+      author: article.author,
+      publishedDate: article.publishedDate,
+      siteName: article.siteName,
+      truncated: article.truncated,
+      fetchedAt: new Date().toISOString(),
+    }, dateRange, forceRefresh)
+  }
+
+  /**
+   * A cached analysis served for a text that is similar, but not equal, to its own
+   */
+  private servedAsMatch(result: AnalysisResult, similarity: number, origin?: ContentOrigin): AnalysisResult {
+    return {
+      ...result,
+      ...(origin ? { origin } : {}),
+      cacheMatch: {
+        analysisId: result.id,
+        contentText: result.contentText,
+        similarity: parseFloat(similarity.toFixed(2)),
+      },
+    }
+  }
+
+  /**
+   * A cached analysis of the same text, or of a paraphrase that uses the same claim terms
+   * A similar text whose terms differ comes back as a candidate, served only when its
+   * extracted claims turn out to be the same
+   * Results for different date ranges are cached separately
+   */
+  private fromCache(contentText: string, dateRange?: DateRange, origin?: ContentOrigin): CacheLookup {
+    const cached = this.cacheService.get(contentText, dateRange)
+    if (cached) {
+      console.log('Cache hit for content:', contentText.substring(0, 50))
+      return { hit: origin ? { ...cached, origin } : cached }
+    }
+
+    const similar = this.cacheService.getSimilar(contentText, dateRange)
+    if (!similar) return {}
+
+    const { result, similarity, termsAgree } = similar
+    if (!termsAgree) {
+      console.log(`Similar cached text (${similarity.toFixed(2)}) uses different terms, comparing claims`)
+      return { candidate: { result, similarity } }
+    }
+
+    console.log(`Similar cache hit (${similarity.toFixed(2)}) for content: ${contentText.substring(0, 50)}`)
+    return { hit: this.servedAsMatch(result, similarity, origin) }
+  }
+
+  /**
+   * Fact-check content, reporting each pipeline stage to onProgress as it completes
+   * An optional date range limits evidence to sources published inside it
+   * forceRefresh skips the cache; the new analysis is then served to later requests
+   * Once the daily budget is spent, new analyses are refused or downgraded; cached results are still served
+   */
+  async analyzePost(
+    contentText: string,
+    onProgress?: ProgressCallback,
+    origin?: ContentOrigin,
+    dateRange?: DateRange,
+    forceRefresh: boolean = false
+  ): Promise<AnalysisResult> {
+    const { hit, candidate } = forceRefresh ? {} as CacheLookup : this.fromCache(contentText, dateRange, origin)
+    if (hit) {
+      onProgress?.({ stage: 'cached' })
+      return hit
+    }
+
+    console.log(forceRefresh ? 'Refresh requested, performing new analysis...' : 'Cache miss, performing new analysis...')
+
+    const budget = this.usageMeter?.budget()
+    if (budget?.exceeded && budget.action === 'refuse') {
+      throw new BudgetExceededError(budget.dailyBudgetUsd!)
+    }
+    const downgraded = budget?.exceeded === true
+    if (downgraded) {
+      console.warn(`Daily budget spent ($${budget!.spentTodayUsd} of $${budget!.dailyBudgetUsd}), running a downgraded analysis`)
+    }
+
+    const id = uuidv4()
+    const analyze = () => this.runAnalysis(id, contentText, downgraded, onProgress, origin, dateRange, candidate)
+    const tracked = this.usageMeter ? await this.usageMeter.track(id, analyze) : { result: await analyze() }
+
+    // The candidate states the same claims, so its analysis was served and nothing new is cached
+    if (tracked.result.cacheMatch) {
+      console.log(`Similar cache hit by claims for content: ${contentText.substring(0, 50)}`)
+      onProgress?.({ stage: 'cached' })
+      return tracked.result
+    }
+
+    const result: AnalysisResult = 'usage' in tracked ? { ...tracked.result, usage: tracked.usage } : tracked.result
+
+    // Cache the result; partial results are kept for sharing and jobs but not served as cache hits
+    this.cacheService.set(result)
+    console.log(result.partial ? `Analysis complete with ${result.warnings?.length} warnings` : 'Analysis complete and cached')
+    if (result.usage) {
+      console.log(`Usage: ${result.usage.llmCalls} LLM calls (${result.usage.promptTokens + result.usage.completionTokens} tokens), ${result.usage.searchCredits} search credits, ~$${result.usage.costUsd}`)
+    }
+
+    return result
+  }
+
+  /**
+   * Run the analysis pipeline on content that is not cached
+   * When a similar cached candidate has the same claims as the content, it is returned
+   * with cacheMatch set once the claims are extracted
+   */
+  private async runAnalysis(
+    id: string,
+    contentText: string,
+    downgraded: boolean,
+    onProgress?: ProgressCallback,
+    origin?: ContentOrigin,
+    dateRange?: DateRange,
+    candidate?: CacheLookup['candidate']
+  ): Promise<AnalysisResult> {
+    const warnings: AnalysisWarning[] = []
+    if (downgraded) {
+      warnings.push({
+        code: 'budget_downgraded',
+        message: 'The daily budget is used up, so only the main claim was checked, against fewer sources',
+      })
+    }
+
+    // Claims share the language of the content they were extracted from
+    const language = await this.languageDetector.detectLanguage(contentText)
+
+    // Break the content into atomic claims and check each one on its own
+    const extractedClaims = await this.openaiService.extractClaims(
+      contentText,
+      origin?.publishedDate,
+      downgraded ? DOWNGRADED_MAX_CLAIMS : undefined
+    )
+    onProgress?.({ stage: 'claims_extracted', claims: extractedClaims.map(extracted => extracted.claim) })
+    if (candidate && sameClaimSet(
+      extractedClaims.map(extracted => extracted.claim),
+      candidate.result.claims.map(claim => claim.claim)
+    )) {
+      return this.servedAsMatch(candidate.result, candidate.similarity, origin)
+    }
+    // A claim that fails is reported and left out, so the other claims still produce a result
+    const context: ClaimContext = { language, warnings, dateRange, downgraded, onProgress }
+    const settled = await Promise.allSettled(
+      extractedClaims.map((extracted, index) => this.checkClaim(extracted, index, context))
+    )
+    const claims: ClaimResult[] = []
+    let firstError: unknown
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        if (outcome.value) claims.push(outcome.value)
+        return
+      }
+
+      console.error(`Claim ${index + 1} failed:`, outcome.reason)
+      firstError = firstError ?? outcome.reason
+      warnings.push({
+        code: 'claim_failed',
+        message: `Could not check the claim: ${outcome.reason instanceof Error ? outcome.reason.message : outcome.reason}`,
+        claim: extractedClaims[index].claim,
+      })
+    })
+
+    if (claims.length === 0) {
+      if (firstError) throw firstError
+      throw new Error('No sources found for this content. Please try a different query.')
+    }
+
+    // Roll claims up into overall scores, weighting each claim by the number of sources behind it
+    const totalSourcesRetrieved = claims.reduce((total, claim) => total + claim.totalSourcesRetrieved, 0)
+    const weightedAverage = (pick: (claim: ClaimResult) => number) =>
+      parseFloat(
+        (claims.reduce((total, claim) => total + pick(claim) * claim.totalSourcesRetrieved, 0) / totalSourcesRetrieved).toFixed(1)
+      )
+
+    const { agreementScore, disagreementScore, neutralScore } = this.normalizeScores(
+      weightedAverage(claim => claim.agreementScore),
+      weightedAverage(claim => claim.disagreementScore),
+      weightedAverage(claim => claim.neutralScore)
+    )
+
+    let summary = claims.length === 1 ? claims[0].summary : ''
+    if (claims.length > 1) {
+      try {
+        summary = await this.openaiService.summarizeClaims(contentText, claims, language.languageName)
+      } catch (error) {
+        // Fall back to the claim summaries, which are already in the content's language
+        summary = claims.map(claim => claim.summary).filter(Boolean).join(' ')
+        warnings.push({ code: 'summary_unavailable', message: 'The overall summary could not be written' })
+      }
+    }
+    onProgress?.({ stage: 'summary_ready', summary })
+
+    const displaySources = this.selectDisplaySources(claims.flatMap(claim => claim.sources))
+
+    console.log(`Checked ${claims.length} claims, overall: Agreement ${agreementScore}%, Disagreement ${disagreementScore}%, Neutral ${neutralScore}%`)
+    console.log(`Total unique sources displayed: ${displaySources.length} out of ${totalSourcesRetrieved} analyzed`)
+
+    return {
+      id,
       contentText,
-      accuracyScore: analysis.accuracyScore,
+      accuracyScore: rollupClaimScores(claims),
       agreementScore,
       disagreementScore,
       neutralScore,
-      summary: analysis.summary,
-      summaryTranslations: analysis.summaryTranslations || {},
+      summary,
+      // Translations are made on demand through GET /analyses/:id/translations/:lang
+      summaryTranslations: {},
       sources: displaySources,
-      totalSourcesRetrieved: sources.length,
+      totalSourcesRetrieved,
+      claims,
+      algorithmVersion: ALGORITHM_VERSION,
+      origin,
+      language: language.language,
+      dateRange,
+      partial: warnings.length > 0,
+      warnings: warnings.length > 0 ? warnings : undefined,
       analyzedAt: new Date().toISOString(),
       cached: false,
     }
-
-    // Cache the result
-    this.cacheService.set(result)
-    console.log('Analysis complete and cached')
-
-    return result
   }
 }
@@ -0,0 +1,100 @@
+import { JobService } from '../db/jobs'
+import { HistoryService } from '../db/history'
+import { FactCheckerService } from './factChecker'
+import { AnalysisJob, AnalysisProgressEvent, DateRange } from '../types'
+
+// A job interrupted by a restart is retried once, then marked as failed
+export const MAX_JOB_ATTEMPTS = 2
+
+/**
+ * Runs analysis jobs in the background with bounded concurrency
+ * Job state lives in SQLite, so queued and interrupted jobs survive a restart
+ */
+export class JobRunner {
+  private queue: string[] = []
+  private active = 0
+
+  constructor(
+    private jobService: JobService,
+    private factChecker: FactCheckerService,
+    private concurrency: number = 2,
+    // Records results of jobs submitted by logged-in users
+    private historyService?: HistoryService
+  ) {}
+
+  /**
+   * Create a job and start it as soon as a slot is free
+   * With a userId, the result is added to that user's history
+   */
+  submit(
+    contentText: string,
+    url?: string,
+    dateRange?: DateRange,
+    forceRefresh: boolean = false,
+    userId?: string
+  ): AnalysisJob {
+    const job = this.jobService.create(contentText, url, dateRange, forceRefresh, userId)
+    this.enqueue(job.id)
+    return job
+  }
+
+  /**
+   * Create a job per text under one batch ID
+   * Jobs share the runner's concurrency limit with single analyses
+   */
+  submitBatch(texts: string[], userId?: string): { batchId: string; jobs: AnalysisJob[] } {
+    const batch = this.jobService.createBatch(texts, userId)
+    batch.jobs.forEach(job => this.enqueue(job.id))
+    return batch
+  }
+
+  /**
+   * Pick up jobs left over from a previous run of the server
+   */
+  resume(): { requeued: number; failed: number; queued: number } {
+    const { requeued, failed } = this.jobService.recoverInterrupted(MAX_JOB_ATTEMPTS)
+    const queued = this.jobService.listQueued()
+    queued.forEach(job => this.enqueue(job.id))
+
+    return { requeued, failed, queued: queued.length }
+  }
+
+  private enqueue(id: string): void {
+    this.queue.push(id)
+    this.drain()
+  }
+
+  private drain(): void {
+    while (this.active < this.concurrency && this.queue.length > 0) {
+      const id = this.queue.shift()!
+      this.active++
+      this.run(id).finally(() => {
+        this.active--
+        this.drain()
+      })
+    }
+  }
+
+  private async run(id: string): Promise<void> {
+    const job = this.jobService.get(id)
+    if (!job || job.status !== 'queued') return
+
+    this.jobService.markRunning(id)
+    console.log(`Job ${id} started (attempt ${job.attempts + 1})`)
+
+    try {
+      // analyzePost writes the result through CacheService, the job keeps its ID
+      const onProgress = (event: AnalysisProgressEvent) => this.jobService.updateStage(id, event.stage)
+      const result = job.url
+        ? await this.factChecker.analyzeUrl(job.url, onProgress, job.dateRange, job.forceRefresh)
+        : await this.factChecker.analyzePost(job.contentText, onProgress, undefined, job.dateRange, job.forceRefresh)
+      this.jobService.complete(id, result.id)
+      if (job.userId) this.historyService?.addResult(job.userId, result)
+      console.log(`Job ${id} completed`)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Internal server error'
+      this.jobService.fail(id, message)
+      console.error(`Job ${id} failed:`, message)
+    }
+  }
+}
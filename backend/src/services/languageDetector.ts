@@ -1,4 +1,7 @@
-import OpenAI from 'openai'
+import { LLMProvider } from './llmProvider'
+import { completeStructured, languageDetectionSchema } from './llmOutput'
+import { SearchOptions } from './searchProvider'
+import { DEFAULT_LANGUAGE, LANGUAGES, getLanguage } from '../utils/languages'
 
 export interface LanguageDetectionResult {
   language: string // ISO 639-1 code (e.g., 'en', 'ar', 'es')
@@ -6,15 +9,25 @@ export interface LanguageDetectionResult {
   languageName: string // Full name (e.g., 'English', 'Arabic', 'Spanish')
 }
 
-export class LanguageDetectorService {
-  private client: OpenAI
+const displayNames = new Intl.DisplayNames(['en'], { type: 'language', fallback: 'none' })
 
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is required for language detection')
-    }
-    this.client = new OpenAI({ apiKey })
+/**
+ * English name of a language code, from the registry or else the runtime's language names
+ * (e.g., 'sw' -> 'Swahili'), or null if the code is not a known language
+ */
+export function languageName(code: string): string | null {
+  const registered = getLanguage(code)
+  if (registered) return registered.name
+
+  try {
+    return displayNames.of(code) || null
+  } catch {
+    return null
   }
+}
+
+export class LanguageDetectorService {
+  constructor(private llm: LLMProvider) {}
 
   /**
    * Detect the language of the given text
@@ -30,13 +43,13 @@ Text: "${sampleText}"
 
 Respond with:
 {
-  "language": "<ISO 639-1 code like 'en', 'ar', 'es', 'fr', 'de', 'zh', 'ja', 'hi', 'tr', 'fa', 'ur', 'pt', 'it', 'sv'>",
+  "language": "<ISO 639-1 code like ${LANGUAGES.map(language => `'${language.code}'`).join(', ')}>",
   "confidence": "high" | "medium" | "low",
   "languageName": "<full language name like 'English', 'Arabic', 'Spanish'>"
 }`
 
-      const completion = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const result = await completeStructured(this.llm, {
+        task: 'languageDetection',
         messages: [
           {
             role: 'system',
@@ -48,16 +61,9 @@ Respond with:
           },
         ],
         temperature: 0.1,
-        max_tokens: 100,
-        response_format: { type: 'json_object' },
-      })
-
-      const responseText = completion.choices[0]?.message?.content
-      if (!responseText) {
-        throw new Error('No response from language detector')
-      }
-
-      const result = JSON.parse(responseText) as LanguageDetectionResult
+        maxTokens: 100,
+        json: true,
+      }, languageDetectionSchema)
 
       console.log(`Detected language: ${result.languageName} (${result.language}) - confidence: ${result.confidence}`)
 
@@ -74,30 +80,10 @@ Respond with:
   }
 
   /**
-   * Get supported languages for AskNews
-   * Common language codes that AskNews likely supports
+   * Languages of the shared registry, which search and translation support
    */
   getSupportedLanguages(): string[] {
-    return [
-      'en', // English
-      'ar', // Arabic
-      'es', // Spanish
-      'fr', // French
-      'de', // German
-      'pt', // Portuguese
-      'zh', // Chinese
-      'ja', // Japanese
-      'hi', // Hindi
-      'tr', // Turkish
-      'fa', // Farsi/Persian
-      'ur', // Urdu
-      'it', // Italian
-      'sv', // Swedish
-      'ru', // Russian
-      'ko', // Korean
-      'nl', // Dutch
-      'pl', // Polish
-    ]
+    return LANGUAGES.map(language => language.code)
   }
 
   /**
@@ -106,4 +92,16 @@ Respond with:
   isLanguageSupported(languageCode: string): boolean {
     return this.getSupportedLanguages().includes(languageCode.toLowerCase())
   }
+
+  /**
+   * Search options that find evidence in the detected language
+   * The default language and uncertain detections search with the providers' defaults
+   */
+  searchOptionsFor(detection: LanguageDetectionResult): SearchOptions {
+    const language = getLanguage(detection.language)
+    if (!language || language.code === DEFAULT_LANGUAGE || detection.confidence === 'low') {
+      return {}
+    }
+    return { language: language.code, country: language.searchRegion || undefined }
+  }
 }
@@ -0,0 +1,123 @@
+import { z } from 'zod'
+import { LLMProvider, LLMRequest, LLMTask } from './llmProvider'
+
+/**
+ * Schema-checked JSON answers from language models
+ *
+ * Every answer is parsed as JSON and validated against the schema of its task. When it
+ * does not match, the model is shown its answer and the problems and asked to correct
+ * them, up to MAX_REPAIRS times. An answer that still does not match fails with
+ * LLMOutputError, so callers never work with fields the model left out or made up.
+ */
+export const MAX_REPAIRS = 1
+
+/**
+ * A model kept answering in a shape its task's schema rejects
+ */
+export class LLMOutputError extends Error {
+  constructor(
+    readonly task: LLMTask,
+    readonly issues: string[]
+  ) {
+    super(`Invalid ${task} response from the language model: ${issues.join('; ')}`)
+    this.name = 'LLMOutputError'
+  }
+}
+
+const relevanceSchema = z.enum(['supporting', 'contradicting', 'neutral'])
+
+export const extractionSchema = z.object({
+  claims: z.array(
+    z.union([
+      // Plain strings are accepted as claims without a time context
+      z.string(),
+      z.object({
+        claim: z.string(),
+        timeSensitive: z.boolean().nullish(),
+        eventDate: z.string().nullish(),
+      }),
+    ])
+  ),
+})
+
+/**
+ * Categorization of a batch of sourceCount sources, which the model refers to by their number in the prompt
+ */
+export function categorizationSchema(sourceCount: number) {
+  return z.object({
+    sources: z.array(
+      z.object({
+        index: z.number().int().min(1).max(sourceCount),
+        relevance: relevanceSchema,
+        confidence: z.number().min(0).max(1).nullish(),
+      })
+    ),
+  })
+}
+
+export const summarySchema = z.object({
+  summary: z.string().trim().min(1),
+})
+
+export const translationSchema = z.object({
+  translation: z.string().trim().min(1),
+})
+
+export const languageDetectionSchema = z.object({
+  language: z.string().trim().toLowerCase().min(2),
+  confidence: z.enum(['high', 'medium', 'low']),
+  languageName: z.string().trim().min(1),
+})
+
+/**
+ * The JSON object in a model answer, without markdown code fences or surrounding prose
+ */
+export function extractJson(text: string): string {
+  const jsonMatch = text.match(/\{[\s\S]*\}/)
+  return jsonMatch ? jsonMatch[0] : text
+}
+
+/**
+ * Parse an answer and check it against a schema, returning its data or its problems as "path: message"
+ */
+function validate<T>(text: string, schema: z.ZodType<T>): { data: T } | { issues: string[] } {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(extractJson(text))
+  } catch {
+    return { issues: ['the response is not valid JSON'] }
+  }
+
+  const result = schema.safeParse(parsed)
+  if (result.success) return { data: result.data }
+  return { issues: result.error.issues.map(issue => `${issue.path.join('.') || 'response'}: ${issue.message}`) }
+}
+
+/**
+ * Send a request whose answer must be JSON matching schema, asking the model to repair answers that do not
+ */
+export async function completeStructured<T>(llm: LLMProvider, request: LLMRequest, schema: z.ZodType<T>): Promise<T> {
+  const messages = [...request.messages]
+
+  for (let repair = 0; ; repair++) {
+    const completion = await llm.complete({ ...request, messages })
+    const outcome = validate(completion.content || '', schema)
+    if ('data' in outcome) return outcome.data
+
+    if (repair >= MAX_REPAIRS) {
+      throw new LLMOutputError(request.task, outcome.issues)
+    }
+
+    console.warn(`${request.task}: response did not match the schema (${outcome.issues.join('; ')}), asking for a corrected one`)
+    messages.push(
+      { role: 'assistant', content: completion.content || '' },
+      {
+        role: 'user',
+        content: `Your response does not match the required format:
+${outcome.issues.map(issue => `- ${issue}`).join('\n')}
+
+Respond again with the complete, corrected JSON only.`,
+      }
+    )
+  }
+}
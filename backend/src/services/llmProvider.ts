@@ -0,0 +1,227 @@
+import OpenAI from 'openai'
+import { LLMConfig } from '../config'
+import {
+  DEFAULT_RESILIENCE,
+  ProviderError,
+  ResilienceConfig,
+  ResilientCaller,
+  parseRetryAfter,
+  providerErrorFromResponse,
+} from './resilience'
+
+/**
+ * Pipeline steps that call a language model
+ * Each task can be routed to its own model
+ */
+export type LLMTask = 'extraction' | 'categorization' | 'summary' | 'translation' | 'languageDetection'
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMRequest {
+  task: LLMTask
+  messages: LLMMessage[]
+  temperature?: number
+  maxTokens?: number
+  json?: boolean
+}
+
+export interface LLMResponse {
+  content: string
+  model: string
+  usage?: {
+    promptTokens: number
+    completionTokens: number
+  }
+}
+
+/**
+ * Common contract for every language model backend
+ */
+export interface LLMProvider {
+  readonly name: string
+  complete(request: LLMRequest): Promise<LLMResponse>
+}
+
+/**
+ * OpenAI and any server that speaks the OpenAI chat completions API
+ * (vLLM, Ollama, LM Studio, llama.cpp server, Azure-compatible gateways, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: string
+  private client: OpenAI
+  private jsonMode: boolean
+  private caller: ResilientCaller
+
+  constructor(
+    private models: Record<LLMTask, string>,
+    options: { apiKey: string; baseUrl?: string; name?: string; jsonMode?: boolean },
+    resilience: ResilienceConfig = DEFAULT_RESILIENCE
+  ) {
+    if (!options.apiKey) {
+      throw new Error('LLM_API_KEY (or OPENAI_API_KEY) is required')
+    }
+    this.name = options.name || 'openai'
+    this.jsonMode = options.jsonMode !== false
+    // Retries and timeouts are handled by the resilience layer instead of the client
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseUrl, maxRetries: 0 })
+    this.caller = new ResilientCaller(this.name, resilience)
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.models[request.task]
+
+    const completion = await this.caller.call(request.task, async signal => {
+      try {
+        return await this.client.chat.completions.create({
+          model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          // Not every OpenAI-compatible server supports JSON mode, so it can be switched off
+          ...(request.json && this.jsonMode && { response_format: { type: 'json_object' as const } }),
+        }, { signal })
+      } catch (error) {
+        if (error instanceof OpenAI.APIError) {
+          // Errors without a status are connection failures, which are worth retrying
+          throw new ProviderError(this.name, error.message, {
+            status: error.status,
+            retryable: error.status === undefined ? true : undefined,
+            retryAfterMs: parseRetryAfter(error.headers?.get('retry-after') ?? null),
+          })
+        }
+        throw error
+      }
+    })
+
+    const content = completion.choices[0]?.message?.content
+    if (!content) {
+      throw new Error(`No response from ${this.name}`)
+    }
+
+    return {
+      content,
+      model: completion.model || model,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+      },
+    }
+  }
+}
+
+interface AnthropicMessagesResponse {
+  model: string
+  content: { type: string; text?: string }[]
+  usage?: {
+    input_tokens: number
+    output_tokens: number
+  }
+}
+
+/**
+ * Anthropic Messages API adapter
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic'
+  private apiUrl: string
+  private caller: ResilientCaller
+
+  constructor(
+    private models: Record<LLMTask, string>,
+    private apiKey: string,
+    baseUrl: string = 'https://api.anthropic.com',
+    resilience: ResilienceConfig = DEFAULT_RESILIENCE
+  ) {
+    if (!apiKey) {
+      throw new Error('LLM_API_KEY is required for the anthropic provider')
+    }
+    this.apiUrl = `${baseUrl.replace(/\/+$/, '')}/v1/messages`
+    this.caller = new ResilientCaller(this.name, resilience)
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = this.models[request.task]
+
+    // The Messages API takes the system prompt separately from the conversation
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n')
+    const messages = request.messages.filter(message => message.role !== 'system')
+
+    const data = await this.caller.call(request.task, async signal => {
+      const response = await fetch(this.apiUrl, {
+        method: 'POST',
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model,
+          system: request.json ? `${system}\n\nRespond with a single JSON object and nothing else.`.trim() : system || undefined,
+          messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens || 1024,
+        }),
+        signal,
+      })
+
+      // Anthropic answers 529 when overloaded, which counts as a 5xx
+      if (!response.ok) {
+        throw await providerErrorFromResponse(this.name, response, 'Anthropic API')
+      }
+
+      return await response.json() as AnthropicMessagesResponse
+    })
+    const content = data.content
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('')
+
+    if (!content) {
+      throw new Error('No response from anthropic')
+    }
+
+    return {
+      content,
+      model: data.model || model,
+      usage: data.usage && {
+        promptTokens: data.usage.input_tokens,
+        completionTokens: data.usage.output_tokens,
+      },
+    }
+  }
+}
+
+/**
+ * Build the LLM provider selected in config
+ */
+export function createLLMProvider(config: LLMConfig, resilience: ResilienceConfig = DEFAULT_RESILIENCE): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAICompatibleProvider(config.models, {
+        apiKey: config.apiKey || '',
+        baseUrl: config.baseUrl,
+        jsonMode: config.jsonMode,
+      }, resilience)
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('LLM_BASE_URL is required for the openai-compatible provider')
+      }
+      return new OpenAICompatibleProvider(config.models, {
+        // Self-hosted servers usually ignore the key, but the client requires one
+        apiKey: config.apiKey || 'not-needed',
+        baseUrl: config.baseUrl,
+        name: 'openai-compatible',
+        jsonMode: config.jsonMode,
+      }, resilience)
+    case 'anthropic':
+      return new AnthropicProvider(config.models, config.apiKey || '', config.baseUrl, resilience)
+    default:
+      throw new Error(`Unknown LLM provider "${config.provider}". Supported providers: openai, openai-compatible, anthropic`)
+  }
+}
@@ -1,96 +1,42 @@
-import OpenAI from 'openai'
-import { ClaudeAnalysis, TavilySearchResult } from '../types'
-
+import { LLMProvider } from './llmProvider'
+import {
+  categorizationSchema,
+  completeStructured,
+  extractionSchema,
+  summarySchema,
+  translationSchema,
+} from './llmOutput'
+import { CategorizedSource, ClaimResult, ExtractedClaim, SearchResult } from '../types'
+import { isIsoDay } from '../utils/dates'
+
+// Upper bound on claims checked per submission; each claim costs a full search + categorization pass
+const MAX_CLAIMS = 5
+
+/**
+ * Fact-checking prompts and response handling
+ * Model calls go through an LLMProvider, so any configured backend can serve them
+ */
 export class OpenAIService {
-  private client: OpenAI
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY is required')
-    }
-    this.client = new OpenAI({ apiKey })
-  }
-
-  /**
-   * Sanitize JSON string by removing problematic patterns
-   */
-  private sanitizeJsonString(jsonStr: string): string {
-    // Try to extract JSON object if wrapped in markdown code blocks
-    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      return jsonMatch[0]
-    }
-    return jsonStr
-  }
-
-  /**
-   * Normalize percentages to ensure they sum to exactly 100% with one decimal place
-   */
-  private normalizePercentages(agreement: number, disagreement: number, neutral: number): {
-    agreementScore: number
-    disagreementScore: number
-    neutralScore: number
-  } {
-    // Round to one decimal place
-    let total = agreement + disagreement + neutral
-
-    // Calculate percentages that sum to 100
-    let agreementScore = parseFloat(((agreement / total) * 100).toFixed(1))
-    let disagreementScore = parseFloat(((disagreement / total) * 100).toFixed(1))
-    let neutralScore = parseFloat(((neutral / total) * 100).toFixed(1))
-
-    // Check if they sum to 100
-    let sum = agreementScore + disagreementScore + neutralScore
-
-    // Adjust the largest value to make the sum exactly 100
-    if (sum !== 100) {
-      const diff = parseFloat((100 - sum).toFixed(1))
-
-      // Find the largest score and adjust it
-      if (agreementScore >= disagreementScore && agreementScore >= neutralScore) {
-        agreementScore = parseFloat((agreementScore + diff).toFixed(1))
-      } else if (disagreementScore >= agreementScore && disagreementScore >= neutralScore) {
-        disagreementScore = parseFloat((disagreementScore + diff).toFixed(1))
-      } else {
-        neutralScore = parseFloat((neutralScore + diff).toFixed(1))
-      }
-    }
-
-    return { agreementScore, disagreementScore, neutralScore }
-  }
-
-  /**
-   * Filter and rank sources to keep top 3 per category based on credibility score
-   */
-  private filterTopSources(sources: ClaudeAnalysis['sources']): ClaudeAnalysis['sources'] {
-    // Group sources by relevance
-    const supporting = sources.filter(s => s.relevance === 'supporting')
-    const contradicting = sources.filter(s => s.relevance === 'contradicting')
-    const neutral = sources.filter(s => s.relevance === 'neutral')
-
-    // Sort each group by score (highest first) and take top 3
-    const topSupporting = supporting.sort((a, b) => b.score - a.score).slice(0, 3)
-    const topContradicting = contradicting.sort((a, b) => b.score - a.score).slice(0, 3)
-    const topNeutral = neutral.sort((a, b) => b.score - a.score).slice(0, 3)
-
-    // Combine and return
-    return [...topSupporting, ...topContradicting, ...topNeutral]
-  }
+  constructor(private llm: LLMProvider) {}
 
   /**
    * Categorize a batch of sources in parallel
+   * The model refers to sources by number, and each answer is matched back to the search result
+   * it numbers, so URLs and titles always come from the search. Sources the model skipped are left out
    */
   private async categorizeBatch(
     contentText: string,
-    sources: TavilySearchResult[],
+    sources: SearchResult[],
     batchNumber: number
-  ): Promise<{ sources: { url: string; title: string; relevance: 'supporting' | 'contradicting' | 'neutral' }[] }> {
+  ): Promise<CategorizedSource[]> {
     const sourcesText = sources
       .map(
         (source, idx) =>
           `${idx + 1}. ${source.title}
 URL: ${source.url}
-Content: ${source.content.substring(0, 200)}...
+${source.passages
+  ? `Relevant passages from the page: ${source.passages}`
+  : `Content: ${source.snippet.substring(0, 200)}...`}
 `
       )
       .join('\n')
@@ -102,26 +48,28 @@ Claim: "${contentText}"
 Sources (batch ${batchNumber}):
 ${sourcesText}
 
-For each source, determine if it is:
+For each source, identified by its number, determine if it is:
 - "supporting": The source supports or agrees with the claim
 - "contradicting": The source contradicts or disagrees with the claim
 - "neutral": The source is neutral, unrelated, or provides mixed information
 
+Also give your confidence in each categorization, from 0 (guess) to 1 (certain).
+
 Respond with JSON:
 {
   "sources": [
     {
-      "url": "<exact source url>",
-      "title": "<exact source title>",
-      "relevance": "supporting" | "contradicting" | "neutral"
+      "index": <source number>,
+      "relevance": "supporting" | "contradicting" | "neutral",
+      "confidence": <number 0-1>
     }
   ]
 }
 
 Return ALL ${sources.length} sources with their categorization. Respond with valid JSON only.`
 
-    const completion = await this.client.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const result = await completeStructured(this.llm, {
+      task: 'categorization',
       messages: [
         {
           role: 'system',
@@ -133,142 +81,268 @@ Return ALL ${sources.length} sources with their categorization. Respond with val
         },
       ],
       temperature: 0.3,
-      max_tokens: 4096,
-      response_format: { type: 'json_object' },
-    })
-
-    const responseText = completion.choices[0]?.message?.content
-    if (!responseText) {
-      throw new Error('No response from OpenAI')
+      maxTokens: 4096,
+      json: true,
+    }, categorizationSchema(sources.length))
+
+    // The first answer for a source counts; repeats are ignored
+    const categorized = new Map<number, CategorizedSource>()
+    for (const item of result.sources) {
+      if (categorized.has(item.index)) continue
+      const source = sources[item.index - 1]
+      categorized.set(item.index, {
+        url: source.url,
+        title: source.title,
+        relevance: item.relevance,
+        confidence: item.confidence ?? undefined,
+        publishedDate: source.publishedDate,
+      })
     }
 
-    const sanitizedResponse = this.sanitizeJsonString(responseText)
-    const result = JSON.parse(sanitizedResponse)
+    return [...categorized.values()]
+  }
+
+  /**
+   * Split content into self-contained, check-worthy factual claims
+   * Each claim is flagged when it concerns a recent or ongoing event, with the event's date when known
+   * Falls back to treating the whole text as a single claim
+   */
+  async extractClaims(contentText: string, publishedDate?: string, maxClaims: number = MAX_CLAIMS): Promise<ExtractedClaim[]> {
+    const fallback: ExtractedClaim[] = [{ claim: contentText, timeSensitive: false }]
+
+    try {
+      const prompt = `Split the following content into the distinct factual claims it makes that can be checked against sources.
+
+Content: "${contentText}"
+${publishedDate ? `\nThe content was published on ${publishedDate.substring(0, 10)}.\n` : ''}
+Rules:
+- Each claim must be a single, self-contained statement that makes sense on its own (resolve pronouns and references)
+- Skip opinions, questions, predictions and statements that cannot be verified
+- Merge statements that assert the same fact
+- Return at most ${maxClaims} claims, most important first
+- If the content makes only one claim, return it as the only item
+- Write each claim in the same language as the content
+- Set "timeSensitive" to true when the claim is about a recent or ongoing event, or a fact that changes over time (current office holders, prices, statistics), and false for settled facts
+- Set "eventDate" to the date of the event the claim describes (YYYY-MM-DD) when the content states or implies it, otherwise null
 
-    return result
+Respond with JSON:
+{
+  "claims": [
+    { "claim": "<claim 1>", "timeSensitive": <true|false>, "eventDate": "<YYYY-MM-DD>" | null }
+  ]
+}
+
+Respond with valid JSON only.`
+
+      const data = await completeStructured(this.llm, {
+        task: 'extraction',
+        messages: [
+          { role: 'system', content: 'You are a fact-checking assistant. Respond with valid JSON only.' },
+          { role: 'user', content: prompt }
+        ],
+        temperature: 0.2,
+        maxTokens: 1000,
+        json: true,
+      }, extractionSchema)
+
+      const claims: ExtractedClaim[] = []
+      for (const item of data.claims) {
+        const entry = typeof item === 'string' ? { claim: item, timeSensitive: false, eventDate: null } : item
+        const claim = entry.claim.trim()
+        if (!claim) continue
+
+        claims.push({
+          claim,
+          timeSensitive: entry.timeSensitive === true,
+          eventDate: isIsoDay(entry.eventDate) ? entry.eventDate : undefined,
+        })
+      }
+
+      if (claims.length === 0) {
+        console.warn('Claim extraction returned no claims, using full content as a single claim')
+        return fallback
+      }
+
+      console.log(`Extracted ${claims.length} claims from content (${claims.filter(claim => claim.timeSensitive).length} time-sensitive)`)
+      return claims.slice(0, maxClaims)
+    } catch (error) {
+      console.error('Claim extraction error:', error)
+      return fallback
+    }
   }
 
-  async analyzeFactCheck(
-    contentText: string,
-    sources: TavilySearchResult[]
-  ): Promise<ClaudeAnalysis> {
+  /**
+   * Categorize all sources for a single claim in parallel batches
+   * Batches that fail are left out and counted in failedSources; fails only when every batch fails
+   */
+  async categorizeSources(
+    claim: string,
+    sources: SearchResult[],
+    onBatch?: (sources: CategorizedSource[], batchNumber: number, totalBatches: number) => void
+  ): Promise<{ sources: CategorizedSource[]; failedSources: number }> {
     try {
       console.log(`Analyzing ${sources.length} sources in parallel batches...`)
 
       // Split sources into 5 batches
       const batchSize = Math.ceil(sources.length / 5)
-      const batches: TavilySearchResult[][] = []
+      const batches: SearchResult[][] = []
       for (let i = 0; i < sources.length; i += batchSize) {
         batches.push(sources.slice(i, i + batchSize))
       }
 
       console.log(`Split into ${batches.length} batches of ~${batchSize} sources each`)
 
-      // Process all batches in parallel
+      // Process all batches in parallel, reporting each one as it completes
       const batchPromises = batches.map((batch, index) =>
-        this.categorizeBatch(contentText, batch, index + 1)
+        this.categorizeBatch(claim, batch, index + 1).then(result => {
+          onBatch?.(result, index + 1, batches.length)
+          return result
+        })
       )
 
-      const batchResults = await Promise.all(batchPromises)
+      const settled = await Promise.allSettled(batchPromises)
+      const batchResults = settled
+        .filter((outcome): outcome is PromiseFulfilledResult<CategorizedSource[]> => outcome.status === 'fulfilled')
+        .map(outcome => outcome.value)
+
+      if (batchResults.length === 0) {
+        throw (settled[0] as PromiseRejectedResult).reason
+      }
       console.log(`Completed ${batchResults.length} parallel categorizations`)
 
-      // Combine all categorized sources
-      const allCategorizedSources = batchResults.flatMap(result => result.sources)
+      const allCategorizedSources = batchResults.flat()
+      // Sources of failed batches and sources the model skipped
+      const failedSources = sources.length - allCategorizedSources.length
+      if (failedSources > 0) {
+        console.warn(`Skipping ${failedSources} uncategorized sources (${batches.length - batchResults.length} of ${batches.length} batches failed)`)
+      }
       console.log(`Total categorized sources: ${allCategorizedSources.length}`)
 
-      // Calculate percentages
-      const supportingCount = allCategorizedSources.filter(s => s.relevance === 'supporting').length
-      const contradictingCount = allCategorizedSources.filter(s => s.relevance === 'contradicting').length
-      const neutralCount = allCategorizedSources.filter(s => s.relevance === 'neutral').length
+      return { sources: allCategorizedSources, failedSources }
+    } catch (error) {
+      console.error('OpenAI analysis error:', error)
+      throw new Error('Failed to analyze content with AI. Please try again.')
+    }
+  }
 
-      const total = allCategorizedSources.length
-      const agreementScore = parseFloat(((supportingCount / total) * 100).toFixed(1))
-      const disagreementScore = parseFloat(((contradictingCount / total) * 100).toFixed(1))
-      let neutralScore = parseFloat(((neutralCount / total) * 100).toFixed(1))
+  /**
+   * Summarize the findings for a single claim
+   * The accuracy score is computed by the scoring module and only described here
+   */
+  async summarizeClaim(
+    claim: string,
+    stats: { total: number; supporting: number; contradicting: number; neutral: number; accuracyScore: number },
+    languageName: string = 'English'
+  ): Promise<string> {
+    try {
+      const summaryPrompt = `Based on fact-checking analysis: The claim "${claim}" was analyzed against ${stats.total} sources. ${stats.supporting} sources support it, ${stats.contradicting} contradict it, and ${stats.neutral} are neutral. After weighting sources by credibility, recency and independence, the claim received an accuracy score of ${stats.accuracyScore}/100. Write a brief 2-3 sentence summary of these findings${this.inLanguage(languageName)}.
 
-      // Ensure they sum to 100
-      const sum = agreementScore + disagreementScore + neutralScore
-      if (sum !== 100) {
-        neutralScore = parseFloat((neutralScore + (100 - sum)).toFixed(1))
-      }
+Respond with JSON:
+{
+  "summary": "<2-3 sentence summary>"
+}`
 
-      console.log(`Categorization: ${supportingCount} supporting, ${contradictingCount} contradicting, ${neutralCount} neutral`)
+      const summaryData = await completeStructured(this.llm, {
+        task: 'summary',
+        messages: [
+          { role: 'system', content: 'You are a fact-checking assistant. Respond with valid JSON only.' },
+          { role: 'user', content: summaryPrompt }
+        ],
+        temperature: 0.3,
+        maxTokens: 500,
+        json: true,
+      }, summarySchema)
 
-      // Generate summary with a separate quick call
-      const summaryPrompt = `Based on fact-checking analysis: The claim "${contentText}" was analyzed against ${total} sources. ${supportingCount} sources support it (${agreementScore}%), ${contradictingCount} contradict it (${disagreementScore}%), and ${neutralCount} are neutral (${neutralScore}%). Write a brief 2-3 sentence summary of these findings and provide an accuracy score (0-100).
+      return summaryData.summary
+    } catch (error) {
+      console.error('OpenAI summary error:', error)
+      throw new Error('Failed to analyze content with AI. Please try again.')
+    }
+  }
+
+  /**
+   * Write an overall summary for content that was split into several claims
+   */
+  async summarizeClaims(contentText: string, claims: ClaimResult[], languageName: string = 'English'): Promise<string> {
+    try {
+      const claimsText = claims
+        .map(
+          (claim, idx) =>
+            `${idx + 1}. "${claim.claim}" - accuracy ${claim.accuracyScore}/100. ${claim.summary}`
+        )
+        .join('\n')
+
+      const prompt = `The content below was split into ${claims.length} separate claims, and each claim was fact-checked on its own.
+
+Content: "${contentText}"
+
+Claim results:
+${claimsText}
+
+Write a brief 2-3 sentence overall summary${this.inLanguage(languageName)} that makes clear which claims hold up and which do not.
 
 Respond with JSON:
 {
-  "accuracyScore": <number 0-100>,
   "summary": "<2-3 sentence summary>"
 }`
 
-      const summaryCompletion = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const data = await completeStructured(this.llm, {
+        task: 'summary',
         messages: [
           { role: 'system', content: 'You are a fact-checking assistant. Respond with valid JSON only.' },
-          { role: 'user', content: summaryPrompt }
+          { role: 'user', content: prompt }
         ],
         temperature: 0.3,
-        max_tokens: 500,
-        response_format: { type: 'json_object' },
-      })
+        maxTokens: 500,
+        json: true,
+      }, summarySchema)
+
+      return data.summary
+    } catch (error) {
+      console.error('OpenAI overall summary error:', error)
+      throw new Error('Failed to analyze content with AI. Please try again.')
+    }
+  }
 
-      const summaryText = summaryCompletion.choices[0]?.message?.content
-      const summaryData = summaryText ? JSON.parse(summaryText) : { accuracyScore: 50, summary: 'Analysis completed.' }
+  /**
+   * Instruction suffix for prompts whose answer is not written in English
+   */
+  private inLanguage(languageName: string): string {
+    return languageName === 'English' ? '' : ` in ${languageName}`
+  }
 
-      // Translate summary to all languages in one call
-      console.log('Translating summary to all languages...')
-      const translationPrompt = `Translate this fact-checking summary to the following 13 languages. Keep translations concise and accurate.
+  /**
+   * Translate a summary into one language
+   */
+  async translateSummary(summary: string, sourceLanguageName: string, targetLanguageName: string): Promise<string> {
+    try {
+      console.log(`Translating summary from ${sourceLanguageName} to ${targetLanguageName}...`)
+      const translationPrompt = `Translate this fact-checking summary from ${sourceLanguageName} to ${targetLanguageName}. Keep the translation concise and accurate.
 
-Summary in English: "${summaryData.summary}"
+Summary: "${summary}"
 
-Provide translations in JSON format:
+Respond with JSON:
 {
-  "ar": "Arabic translation",
-  "fr": "French translation",
-  "tr": "Turkish translation",
-  "fa": "Farsi translation",
-  "ur": "Urdu translation",
-  "hi": "Hindi translation",
-  "es": "Spanish translation",
-  "de": "German translation",
-  "pt": "Portuguese translation",
-  "ja": "Japanese translation",
-  "zh": "Chinese translation",
-  "it": "Italian translation",
-  "sv": "Swedish translation"
+  "translation": "<${targetLanguageName} translation>"
 }
 
 Respond with valid JSON only.`
 
-      const translationCompletion = await this.client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const data = await completeStructured(this.llm, {
+        task: 'translation',
         messages: [
           { role: 'system', content: 'You are a professional translator. Respond with valid JSON only.' },
           { role: 'user', content: translationPrompt }
         ],
         temperature: 0.3,
-        max_tokens: 2000,
-        response_format: { type: 'json_object' },
-      })
+        maxTokens: 1000,
+        json: true,
+      }, translationSchema)
 
-      const translationText = translationCompletion.choices[0]?.message?.content
-      const summaryTranslations = translationText ? JSON.parse(translationText) : {}
-      console.log(`Summary translated to ${Object.keys(summaryTranslations).length} languages`)
-
-      return {
-        accuracyScore: parseFloat(summaryData.accuracyScore.toFixed(1)),
-        agreementScore,
-        disagreementScore,
-        neutralScore,
-        summary: summaryData.summary,
-        summaryTranslations,
-        sources: allCategorizedSources,
-      }
+      return data.translation
     } catch (error) {
-      console.error('OpenAI analysis error:', error)
-      throw new Error('Failed to analyze content with AI. Please try again.')
+      console.error('OpenAI translation error:', error)
+      throw new Error('Failed to translate the summary. Please try again.')
     }
   }
 }
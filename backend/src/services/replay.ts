@@ -0,0 +1,177 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import path from 'path'
+import { SearchResult } from '../types'
+import { SearchOptions, SearchProvider } from './searchProvider'
+import { LLMProvider, LLMRequest, LLMResponse } from './llmProvider'
+
+interface SearchFixture {
+  query: string
+  options?: SearchOptions
+  provider: string
+  recordedAt: string
+  results: SearchResult[]
+}
+
+interface LLMFixture {
+  task: LLMRequest['task']
+  messages: LLMRequest['messages']
+  provider: string
+  recordedAt: string
+  response: LLMResponse
+}
+
+/**
+ * Recorded provider responses on disk, one JSON file per request
+ * Files are named after a hash of the request so replays are exact matches
+ */
+export class FixtureStore {
+  constructor(private dir: string) {}
+
+  private hash(value: unknown): string {
+    return crypto.createHash('sha256').update(JSON.stringify(value)).digest('hex').substring(0, 16)
+  }
+
+  private slug(text: string): string {
+    return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 40) || 'request'
+  }
+
+  private read<T>(file: string): T | null {
+    if (!fs.existsSync(file)) return null
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as T
+  }
+
+  private write(file: string, data: unknown): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true })
+    fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n')
+  }
+
+  searchFile(query: string, options?: SearchOptions): string {
+    // Searches without options keep the hash they were recorded under before options existed
+    const key = Object.values(options || {}).some(value => value !== undefined) ? { query, options } : { query }
+    return path.join(this.dir, 'search', `${this.slug(query)}-${this.hash(key)}.json`)
+  }
+
+  llmFile(request: LLMRequest): string {
+    return path.join(this.dir, 'llm', `${request.task}-${this.hash({ task: request.task, messages: request.messages })}.json`)
+  }
+
+  readSearch(query: string, options?: SearchOptions): SearchFixture | null {
+    return this.read<SearchFixture>(this.searchFile(query, options))
+  }
+
+  writeSearch(fixture: SearchFixture): void {
+    this.write(this.searchFile(fixture.query, fixture.options), fixture)
+  }
+
+  readLLM(request: LLMRequest): LLMFixture | null {
+    return this.read<LLMFixture>(this.llmFile(request))
+  }
+
+  writeLLM(fixture: LLMFixture): void {
+    this.write(this.llmFile({ task: fixture.task, messages: fixture.messages }), fixture)
+  }
+}
+
+/**
+ * When the results of a search were retrieved; recency is measured from this time
+ * Relative publish dates ("3 days ago") are resolved at retrieval too, so both stay in step
+ */
+export type EvidenceClock = (query: string, options?: SearchOptions) => Date
+
+export const systemClock: EvidenceClock = () => new Date()
+
+/**
+ * Reads when a search was recorded from its fixture, so recorded and replayed analyses
+ * score evidence against the time it was retrieved instead of today
+ * Call after the search: in record mode, the fixture is written by the search itself
+ */
+export function fixtureClock(store: FixtureStore): EvidenceClock {
+  return (query, options) => {
+    const fixture = store.readSearch(query, options)
+    return fixture ? new Date(fixture.recordedAt) : new Date()
+  }
+}
+
+/**
+ * Serves recorded search results instead of calling a search API
+ */
+export class ReplaySearchProvider implements SearchProvider {
+  readonly name = 'replay'
+
+  constructor(private store: FixtureStore) {}
+
+  async searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    const fixture = this.store.readSearch(query, options)
+    if (!fixture) {
+      throw new Error(`No recorded search fixture for "${query.substring(0, 50)}" (${this.store.searchFile(query, options)}). Record it first with PROVIDER_MODE=record.`)
+    }
+
+    console.log(`Replay: Serving ${fixture.results.length} search results recorded from ${fixture.provider}`)
+    return fixture.results
+  }
+}
+
+/**
+ * Serves recorded LLM responses instead of calling a model
+ */
+export class ReplayLLMProvider implements LLMProvider {
+  readonly name = 'replay'
+
+  constructor(private store: FixtureStore) {}
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const fixture = this.store.readLLM(request)
+    if (!fixture) {
+      throw new Error(`No recorded ${request.task} LLM fixture (${this.store.llmFile(request)}). Record it first with PROVIDER_MODE=record.`)
+    }
+
+    return fixture.response
+  }
+}
+
+/**
+ * Passes searches through to a live provider and records every response
+ */
+export class RecordingSearchProvider implements SearchProvider {
+  readonly name: string
+
+  constructor(private inner: SearchProvider, private store: FixtureStore) {
+    this.name = inner.name
+  }
+
+  async searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    const results = await this.inner.searchForFactCheck(query, options)
+    this.store.writeSearch({
+      query,
+      options,
+      provider: this.inner.name,
+      recordedAt: new Date().toISOString(),
+      results,
+    })
+    return results
+  }
+}
+
+/**
+ * Passes completions through to a live model and records every response
+ */
+export class RecordingLLMProvider implements LLMProvider {
+  readonly name: string
+
+  constructor(private inner: LLMProvider, private store: FixtureStore) {
+    this.name = inner.name
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const response = await this.inner.complete(request)
+    this.store.writeLLM({
+      task: request.task,
+      messages: request.messages,
+      provider: this.inner.name,
+      recordedAt: new Date().toISOString(),
+      response,
+    })
+    return response
+  }
+}
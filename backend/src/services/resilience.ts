@@ -0,0 +1,227 @@
+/**
+ * Timeouts, retries and circuit breaking for calls to external providers
+ *
+ * Every provider owns a ResilientCaller. Each call gets a per-attempt timeout. Transient
+ * failures (timeouts, network errors, HTTP 408, 429 and 5xx) are retried with full-jitter
+ * exponential backoff, honoring Retry-After when the provider sends it. After
+ * breakerThreshold calls in a row fail that way, the provider's circuit opens and calls
+ * fail fast for breakerCooldownMs. Then a single trial call decides whether it closes again.
+ */
+
+export interface ResilienceConfig {
+  timeoutMs: number
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  breakerThreshold: number
+  breakerCooldownMs: number
+}
+
+export const DEFAULT_RESILIENCE: ResilienceConfig = {
+  timeoutMs: 30000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30000,
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429])
+
+/**
+ * A provider call failed
+ * retryable marks failures worth trying again: timeouts, network errors, 408, 429 and 5xx
+ */
+export class ProviderError extends Error {
+  readonly status?: number
+  readonly retryable: boolean
+  readonly retryAfterMs?: number
+
+  constructor(
+    readonly provider: string,
+    message: string,
+    options: { status?: number; retryable?: boolean; retryAfterMs?: number } = {}
+  ) {
+    super(message)
+    this.name = 'ProviderError'
+    this.status = options.status
+    this.retryable = options.retryable ?? (options.status !== undefined && isRetryableStatus(options.status))
+    this.retryAfterMs = options.retryAfterMs
+  }
+}
+
+/**
+ * The provider's circuit is open after repeated failures, so the call was not attempted
+ */
+export class CircuitOpenError extends ProviderError {
+  constructor(provider: string, retryInMs: number) {
+    super(provider, `${provider} is unavailable after repeated failures, retrying in ${Math.ceil(retryInMs / 1000)}s`, {
+      retryable: false,
+    })
+    this.name = 'CircuitOpenError'
+  }
+}
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUSES.has(status) || status >= 500
+}
+
+/**
+ * Whether a failed call may succeed when tried again
+ * fetch rejects with a TypeError when the connection itself fails
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof ProviderError) return error.retryable
+  return error instanceof TypeError
+}
+
+/**
+ * Seconds or an HTTP date from a Retry-After header, in milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined
+  const seconds = Number(value)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/**
+ * Build the error for an unsuccessful HTTP response, keeping its status and Retry-After
+ */
+export async function providerErrorFromResponse(provider: string, response: Response, label: string = 'API'): Promise<ProviderError> {
+  const body = await response.text().catch(() => '')
+  return new ProviderError(provider, `${label} error: ${response.status} - ${body}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  })
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Stops calling a provider that keeps failing, then lets one trial call through after a cooldown
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+
+  constructor(
+    private provider: string,
+    private threshold: number,
+    private cooldownMs: number
+  ) {}
+
+  get currentState(): CircuitState {
+    return this.state
+  }
+
+  /**
+   * Throw CircuitOpenError unless a call may go through now
+   */
+  acquire(): void {
+    if (this.state === 'closed') return
+
+    const elapsed = Date.now() - this.openedAt
+    if (this.state === 'open' && elapsed >= this.cooldownMs) {
+      // Let exactly one trial call through
+      this.state = 'half-open'
+      return
+    }
+
+    throw new CircuitOpenError(this.provider, Math.max(0, this.cooldownMs - elapsed))
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`${this.provider}: circuit closed`)
+    }
+    this.state = 'closed'
+    this.failures = 0
+  }
+
+  recordFailure(): void {
+    this.failures++
+    if (this.state === 'half-open' || (this.state === 'closed' && this.failures >= this.threshold)) {
+      this.state = 'open'
+      this.openedAt = Date.now()
+      console.warn(`${this.provider}: circuit opened after ${this.failures} failed calls`)
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
+
+/**
+ * Runs a provider's outbound calls with a timeout, retries and a circuit breaker
+ */
+export class ResilientCaller {
+  private breaker: CircuitBreaker
+
+  constructor(
+    readonly provider: string,
+    private config: ResilienceConfig = DEFAULT_RESILIENCE
+  ) {
+    this.breaker = new CircuitBreaker(provider, config.breakerThreshold, config.breakerCooldownMs)
+  }
+
+  get circuitState(): CircuitState {
+    return this.breaker.currentState
+  }
+
+  /**
+   * Run one call, passing it a signal that aborts when the attempt times out
+   */
+  async call<T>(operation: string, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    this.breaker.acquire()
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.attempt(operation, fn)
+        this.breaker.recordSuccess()
+        return result
+      } catch (error) {
+        if (!isRetryable(error)) {
+          // The provider answered, it just refused this request
+          this.breaker.recordSuccess()
+          throw error
+        }
+
+        if (attempt >= this.config.maxRetries) {
+          this.breaker.recordFailure()
+          throw error
+        }
+
+        // Full jitter: a random delay up to the exponential backoff, unless the provider asked for longer
+        const backoff = Math.min(this.config.maxDelayMs, this.config.baseDelayMs * 2 ** attempt)
+        const retryAfter = error instanceof ProviderError ? error.retryAfterMs : undefined
+        const delay = Math.min(this.config.maxDelayMs, Math.max(retryAfter ?? 0, Math.random() * backoff))
+        console.warn(`${this.provider}: ${operation} failed (${error instanceof Error ? error.message : error}), retry ${attempt + 1}/${this.config.maxRetries} in ${Math.round(delay)}ms`)
+        await sleep(delay)
+      }
+    }
+  }
+
+  private async attempt<T>(operation: string, fn: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController()
+    let timer: NodeJS.Timeout | undefined
+
+    // Racing the timeout also covers calls that ignore the abort signal
+    // Rejecting before aborting makes the timeout, not the call's AbortError, win the race
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(new ProviderError(this.provider, `${operation} timed out after ${this.config.timeoutMs}ms`, { retryable: true }))
+        controller.abort()
+      }, this.config.timeoutMs)
+    })
+
+    try {
+      return await Promise.race([fn(controller.signal), timeout])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { CategorizedSource, ClaimResult, Evidence, ScoreBreakdown, StaleEvidenceWarning, Verdict } from '../types'
+
+/**
+ * Deterministic accuracy scoring
+ *
+ * The accuracy score is computed from the categorized evidence instead of being asked
+ * from the model, so the same evidence always produces the same score.
+ *
+ * Every categorized source becomes a piece of evidence with a weight:
+ *
+ *   weight = confidence × credibility × recency × independence
+ *
+ * - confidence:   the categorizer's confidence in the stance label (0-1)
+ * - credibility:  reliability of the source's domain, from its tier in the credibility
+ *                 registry (TIER_CREDIBILITY), DEFAULT_CREDIBILITY when the domain is unknown
+ * - recency:      halves every RECENCY_HALF_LIFE_DAYS, never below RECENCY_FLOOR;
+ *                 claims about recent or ongoing events use TIME_SENSITIVE_HALF_LIFE_DAYS
+ *                 and TIME_SENSITIVE_FLOOR instead, so old reporting cannot outvote new;
+ *                 undated sources get UNDATED_RECENCY; ages are counted up to the
+ *                 breakdown's referenceDate, not the time a score is recomputed
+ * - independence: 1 / number of sources sharing a voice, so one outlet publishing many
+ *                 pages, or many outlets republishing one report (same cluster, see
+ *                 similarity.ts), count as one voice; domains and clusters are merged
+ *                 transitively
+ *
+ * Neutral evidence takes no side and does not move the score. With S and C the summed
+ * weights of supporting and contradicting evidence:
+ *
+ *   accuracy = 100 × (S + PRIOR) / (S + C + 2 × PRIOR)
+ *
+ * PRIOR pulls thinly evidenced claims toward 50 ("unverified") rather than 0 or 100.
+ *
+ * Bump ALGORITHM_VERSION whenever the formula or any constant changes. The version is
+ * stored with every analysis so old scores can be audited and reproduced.
+ */
+export const ALGORITHM_VERSION = 'credibility-weighted-v4'
+
+export const PRIOR = 1
+export const DEFAULT_CONFIDENCE = 0.5
+export const DEFAULT_CREDIBILITY = 0.5
+export const RECENCY_HALF_LIFE_DAYS = 365
+export const RECENCY_FLOOR = 0.5
+export const TIME_SENSITIVE_HALF_LIFE_DAYS = 30
+export const TIME_SENSITIVE_FLOOR = 0.1
+export const UNDATED_RECENCY = 0.75
+
+// Warn about stale evidence when more than this share of dated sources predates the event
+export const STALE_EVIDENCE_SHARE = 0.5
+export const STALE_EVIDENCE_MIN_DATED = 3
+
+// Reliability tier 1 (most reliable) to 5 (least reliable) -> credibility factor
+export const TIER_CREDIBILITY: Record<number, number> = {
+  1: 0.95,
+  2: 0.8,
+  3: 0.6,
+  4: 0.35,
+  5: 0.1,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Looks up how reliable a source is, from 0 (unreliable) to 1 (highly reliable)
+ */
+export type CredibilityLookup = (url: string) => number
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits))
+}
+
+function getDomain(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+/**
+ * For each source, the number of sources sharing its voice: the same domain or
+ * the same cluster of republished copies, merged transitively
+ */
+export function voiceGroupSizes(sources: CategorizedSource[]): number[] {
+  const parent = sources.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  // Link every source to the first source seen with the same domain or cluster
+  const firstWithKey = new Map<string, number>()
+  sources.forEach((source, index) => {
+    const keys = [`domain:${getDomain(source.url)}`]
+    if (source.cluster) keys.push(`cluster:${source.cluster.id}`)
+
+    for (const key of keys) {
+      const first = firstWithKey.get(key)
+      if (first === undefined) {
+        firstWithKey.set(key, index)
+      } else {
+        parent[find(index)] = find(first)
+      }
+    }
+  })
+
+  const sizes = new Map<number, number>()
+  sources.forEach((_, index) => sizes.set(find(index), (sizes.get(find(index)) || 0) + 1))
+  return sources.map((_, index) => sizes.get(find(index))!)
+}
+
+/**
+ * Recency factor for a publish date, relative to the analysis time
+ */
+export function recencyFactor(publishedDate: string | undefined, referenceDate: Date, timeSensitive: boolean = false): number {
+  const published = publishedDate ? Date.parse(publishedDate) : NaN
+  if (isNaN(published)) return UNDATED_RECENCY
+
+  const halfLife = timeSensitive ? TIME_SENSITIVE_HALF_LIFE_DAYS : RECENCY_HALF_LIFE_DAYS
+  const floor = timeSensitive ? TIME_SENSITIVE_FLOOR : RECENCY_FLOOR
+  const ageDays = Math.max(0, (referenceDate.getTime() - published) / DAY_MS)
+  return Math.max(floor, Math.pow(0.5, ageDays / halfLife))
+}
+
+/**
+ * Warning for a claim whose dated evidence mostly predates the event it refers to
+ * Such sources cannot report on the event, so the score may rest on outdated information
+ */
+export function staleEvidence(sources: CategorizedSource[], eventDate: string | undefined): StaleEvidenceWarning | undefined {
+  if (!eventDate) return undefined
+
+  const dated = sources.filter(source => source.publishedDate)
+  const predating = dated.filter(source => source.publishedDate!.substring(0, 10) < eventDate).length
+  if (dated.length < STALE_EVIDENCE_MIN_DATED || predating / dated.length <= STALE_EVIDENCE_SHARE) {
+    return undefined
+  }
+
+  return { eventDate, predating, dated: dated.length }
+}
+
+/**
+ * Score one claim from its categorized sources
+ * Recency is measured from referenceDate, which is kept in the breakdown so the score can be reproduced
+ */
+export function scoreEvidence(
+  sources: CategorizedSource[],
+  credibilityOf: CredibilityLookup,
+  referenceDate: Date,
+  timeSensitive: boolean = false
+): { accuracyScore: number; breakdown: ScoreBreakdown } {
+  const groupSizes = voiceGroupSizes(sources)
+
+  // Factors are rounded before multiplying so the stored breakdown reproduces the weight exactly
+  const evidence: Evidence[] = sources.map((source, index) => {
+    const confidence = round(clamp(typeof source.confidence === 'number' ? source.confidence : DEFAULT_CONFIDENCE, 0, 1), 3)
+    const credibility = round(clamp(credibilityOf(source.url), 0, 1), 3)
+    const recency = round(recencyFactor(source.publishedDate, referenceDate, timeSensitive), 3)
+    const independence = round(1 / groupSizes[index], 3)
+
+    return {
+      url: source.url,
+      relevance: source.relevance,
+      publishedDate: source.publishedDate,
+      clusterId: source.cluster?.id,
+      confidence,
+      credibility,
+      recency,
+      independence,
+      weight: round(confidence * credibility * recency * independence, 4),
+    }
+  })
+
+  const sumWeights = (relevance: Evidence['relevance']) =>
+    round(evidence.filter(item => item.relevance === relevance).reduce((total, item) => total + item.weight, 0), 4)
+
+  const supportWeight = sumWeights('supporting')
+  const contradictWeight = sumWeights('contradicting')
+  const neutralWeight = sumWeights('neutral')
+
+  const accuracyScore = round(100 * (supportWeight + PRIOR) / (supportWeight + contradictWeight + 2 * PRIOR), 1)
+
+  return {
+    accuracyScore,
+    breakdown: {
+      algorithmVersion: ALGORITHM_VERSION,
+      supportWeight,
+      contradictWeight,
+      neutralWeight,
+      prior: PRIOR,
+      timeSensitive,
+      referenceDate: referenceDate.toISOString(),
+      evidence,
+    },
+  }
+}
+
+/**
+ * Overall score for content split into several claims
+ * Claims are weighted by how much stance evidence backs their score
+ */
+export function rollupClaimScores(claims: ClaimResult[]): number {
+  const weightOf = (claim: ClaimResult) =>
+    claim.scoreBreakdown.supportWeight + claim.scoreBreakdown.contradictWeight + 2 * claim.scoreBreakdown.prior
+
+  const totalWeight = claims.reduce((total, claim) => total + weightOf(claim), 0)
+  if (totalWeight === 0) return 50
+
+  return round(claims.reduce((total, claim) => total + claim.accuracyScore * weightOf(claim), 0) / totalWeight, 1)
+}
+
+/**
+ * Plain-language verdict for an accuracy score
+ * Uses the same bands as the gauge colors in the web UI
+ */
+export function getVerdict(accuracyScore: number): Verdict {
+  if (accuracyScore >= 70) return 'likely-accurate'
+  if (accuracyScore >= 40) return 'mixed'
+  return 'likely-inaccurate'
+}
@@ -0,0 +1,137 @@
+import { DateRange, SearchResult } from '../types'
+import { SearchConfig } from '../config'
+import { SerperService } from './serper'
+import { TavilyService } from './tavily'
+import { AskNewsService } from './asknews'
+import { DEFAULT_RESILIENCE, ResilienceConfig } from './resilience'
+import { UsageMeter } from './usage'
+
+/**
+ * Where to search, so claims get evidence in their own language
+ * Providers apply the options they support and ignore the rest
+ */
+export interface SearchOptions {
+  language?: string // ISO 639-1 code (e.g., 'ar')
+  country?: string // ISO 3166-1 alpha-2 code (e.g., 'sa')
+  dateRange?: DateRange // only pages published in this window
+  maxResults?: number // fewer results for cheaper searches; each provider has its own default
+}
+
+/**
+ * Common contract for every search backend used by the fact-checking pipeline
+ */
+export interface SearchProvider {
+  readonly name: string
+  searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]>
+}
+
+/**
+ * Normalize a URL so the same page reported by different providers is only counted once
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const urlObj = new URL(url)
+    urlObj.hash = ''
+    for (const param of Array.from(urlObj.searchParams.keys())) {
+      if (param.startsWith('utm_')) {
+        urlObj.searchParams.delete(param)
+      }
+    }
+    const host = urlObj.hostname.toLowerCase().replace(/^www\./, '')
+    const path = urlObj.pathname.replace(/\/+$/, '')
+    return `${host}${path}${urlObj.search}`
+  } catch {
+    return url.trim().toLowerCase()
+  }
+}
+
+/**
+ * Fans a query out to several providers and merges their results
+ * Results are interleaved by rank so every provider's best hits come first,
+ * then deduplicated by normalized URL
+ */
+export class MultiSearchProvider implements SearchProvider {
+  readonly name: string
+
+  constructor(private providers: SearchProvider[]) {
+    if (providers.length === 0) {
+      throw new Error('At least one search provider is required')
+    }
+    this.name = providers.map(provider => provider.name).join('+')
+  }
+
+  async searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    const settled = await Promise.allSettled(
+      this.providers.map(provider => provider.searchForFactCheck(query, options))
+    )
+
+    const resultSets: SearchResult[][] = []
+    settled.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        resultSets.push(outcome.value)
+      } else {
+        console.error(`Search provider ${this.providers[index].name} failed:`, outcome.reason)
+      }
+    })
+
+    if (resultSets.length === 0) {
+      throw new Error('Failed to search sources. Please try again.')
+    }
+
+    const merged: SearchResult[] = []
+    const seenUrls = new Set<string>()
+    const longest = Math.max(...resultSets.map(results => results.length))
+
+    for (let position = 0; position < longest; position++) {
+      for (const results of resultSets) {
+        const result = results[position]
+        if (!result) continue
+
+        const key = normalizeUrl(result.url)
+        if (!seenUrls.has(key)) {
+          seenUrls.add(key)
+          merged.push(result)
+        }
+      }
+    }
+
+    console.log(`${this.name}: Merged ${merged.length} unique results from ${resultSets.length} providers`)
+
+    // Re-rank the merged list while keeping each provider's own rank on the result
+    return merged.map((result, index) => ({
+      ...result,
+      score: 1 - (index / merged.length),
+    }))
+  }
+}
+
+/**
+ * Build the search provider(s) selected in config
+ * A single provider is used directly; several are wrapped in a MultiSearchProvider
+ * Each provider gets its own circuit breaker, so one failing provider does not stop the others
+ * When a meter is given, every request is reported to it with the credits it costs
+ */
+export function createSearchProvider(
+  config: SearchConfig,
+  resilience: ResilienceConfig = DEFAULT_RESILIENCE,
+  meter?: UsageMeter
+): SearchProvider {
+  const providers = config.providers.map((name): SearchProvider => {
+    switch (name) {
+      case 'serper':
+        return new SerperService(config.serperApiKey || '', resilience, meter)
+      case 'tavily':
+        return new TavilyService(config.tavilyApiKey || '', resilience, meter)
+      case 'asknews':
+        return new AskNewsService(config.askNewsClientId || '', config.askNewsClientSecret || '', resilience, meter)
+      default:
+        throw new Error(`Unknown search provider "${name}". Supported providers: serper, tavily, asknews`)
+    }
+  })
+
+  if (providers.length === 0) {
+    throw new Error('SEARCH_PROVIDERS must name at least one provider')
+  }
+
+  return providers.length === 1 ? providers[0] : new MultiSearchProvider(providers)
+}
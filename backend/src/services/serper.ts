@@ -1,3 +1,9 @@
+import { DateRange, SearchResult } from '../types'
+import { SearchOptions, SearchProvider } from './searchProvider'
+import { DEFAULT_RESILIENCE, ResilienceConfig, ResilientCaller, providerErrorFromResponse } from './resilience'
+import { UsageMeter } from './usage'
+import { normalizePublishedDate } from '../utils/dates'
+
 export interface SerperSearchResult {
   url: string
   title: string
@@ -14,6 +20,12 @@ interface SerperApiResult {
   date?: string
 }
 
+// Google interface languages that need a region suffix
+const SERPER_LANGUAGE_CODES: Record<string, string> = {
+  zh: 'zh-cn',
+  pt: 'pt-br',
+}
+
 interface SerperApiResponse {
   organic?: SerperApiResult[]
   searchParameters?: {
@@ -22,50 +34,75 @@ interface SerperApiResponse {
   }
 }
 
-export class SerperService {
+export class SerperService implements SearchProvider {
+  readonly name = 'serper'
   private apiKey: string
   private apiUrl = 'https://google.serper.dev/search'
+  private caller: ResilientCaller
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, resilience: ResilienceConfig = DEFAULT_RESILIENCE, private meter?: UsageMeter) {
     if (!apiKey) {
       throw new Error('SERPER_API_KEY is required')
     }
     this.apiKey = apiKey
+    this.caller = new ResilientCaller(this.name, resilience)
+  }
+
+  /**
+   * Google's custom date range filter (tbs), with dates in M/D/YYYY
+   */
+  private dateRangeFilter(range: DateRange): string {
+    const format = (day: string) => {
+      const [year, month, date] = day.split('-').map(part => parseInt(part, 10))
+      return `${month}/${date}/${year}`
+    }
+    return [
+      'cdr:1',
+      range.from ? `cd_min:${format(range.from)}` : '',
+      range.to ? `cd_max:${format(range.to)}` : '',
+    ].filter(Boolean).join(',')
   }
 
   /**
    * Search for sources using Serper API
    * Can retrieve up to 100 results in a single request
    */
-  async search(query: string, maxResults: number = 100): Promise<SerperSearchResult[]> {
+  async search(query: string, maxResults: number = 100, options: SearchOptions = {}): Promise<SerperSearchResult[]> {
     try {
       const startTime = Date.now()
 
       // Serper supports up to 100 results per request
-      // Note: 100 results costs 2 credits instead of 1
+      // Note: more than 10 results costs 2 credits instead of 1
       const num = Math.min(maxResults, 100)
 
-      console.log(`Serper: Searching for "${query}" with ${num} results...`)
-
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'X-API-KEY': this.apiKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          q: query,
-          num: num,
-        }),
-      })
-
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`Serper API error: ${response.status} - ${error}`)
-      }
+      console.log(`Serper: Searching for "${query}" with ${num} results${options.language ? ` (${options.language}${options.country ? `-${options.country}` : ''})` : ''}...`)
+
+      const data = await this.caller.call('search', async signal => {
+        const response = await fetch(this.apiUrl, {
+          method: 'POST',
+          headers: {
+            'X-API-KEY': this.apiKey,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            q: query,
+            num: num,
+            // hl: interface language, gl: country to search from
+            ...(options.language && { hl: SERPER_LANGUAGE_CODES[options.language] || options.language }),
+            ...(options.country && { gl: options.country }),
+            ...(options.dateRange && { tbs: this.dateRangeFilter(options.dateRange) }),
+          }),
+          signal,
+        })
+
+        if (!response.ok) {
+          throw await providerErrorFromResponse(this.name, response, 'Serper API')
+        }
 
-      const data = await response.json() as SerperApiResponse
+        return await response.json() as SerperApiResponse
+      })
       const duration = Date.now() - startTime
+      this.meter?.recordSearch(this.name, 'search', num > 10 ? 2 : 1, duration)
 
       if (!data.organic || data.organic.length === 0) {
         console.warn('Serper returned no organic results')
@@ -92,66 +129,79 @@ export class SerperService {
 
   /**
    * Search with query variations to get more diverse results
-   * Makes multiple parallel requests
+   * Makes multiple parallel requests; variations that fail are left out
    */
-  async searchMultiple(query: string, targetMinResults: number = 100): Promise<SerperSearchResult[]> {
-    try {
-      // If we want 100 or fewer results, just use a single request
-      if (targetMinResults <= 100) {
-        return await this.search(query, targetMinResults)
-      }
+  async searchMultiple(query: string, targetMinResults: number = 100, options: SearchOptions = {}): Promise<SerperSearchResult[]> {
+    // If we want 100 or fewer results, just use a single request (retried by the resilience layer)
+    if (targetMinResults <= 100) {
+      return await this.search(query, targetMinResults, options)
+    }
 
-      console.log(`Serper: Searching for ${targetMinResults} results using multiple queries...`)
+    console.log(`Serper: Searching for ${targetMinResults} results using multiple queries...`)
 
-      // For more than 100 results, use query variations
-      const searchVariations = [
-        query, // Original query
-        `${query} fact check`,
-        `${query} evidence`,
-        `${query} research`,
-        `${query} news`,
-      ]
+    // For more than 100 results, use query variations
+    const searchVariations = [
+      query, // Original query
+      `${query} fact check`,
+      `${query} evidence`,
+      `${query} research`,
+      `${query} news`,
+    ]
 
-      const allResults: SerperSearchResult[] = []
-      const seenUrls = new Set<string>()
+    const allResults: SerperSearchResult[] = []
+    const seenUrls = new Set<string>()
 
-      // Make parallel requests for the first few variations
-      const maxVariations = Math.ceil(targetMinResults / 100)
-      const variationsToUse = searchVariations.slice(0, Math.min(maxVariations, searchVariations.length))
+    // Make parallel requests for the first few variations
+    const maxVariations = Math.ceil(targetMinResults / 100)
+    const variationsToUse = searchVariations.slice(0, Math.min(maxVariations, searchVariations.length))
 
-      console.log(`Using ${variationsToUse.length} search variations in parallel`)
+    console.log(`Using ${variationsToUse.length} search variations in parallel`)
 
-      const promises = variationsToUse.map(variation => this.search(variation, 100))
-      const results = await Promise.all(promises)
+    const settled = await Promise.allSettled(variationsToUse.map(variation => this.search(variation, 100, options)))
+    const results = settled
+      .filter((outcome): outcome is PromiseFulfilledResult<SerperSearchResult[]> => outcome.status === 'fulfilled')
+      .map(outcome => outcome.value)
 
-      // Deduplicate by URL
-      for (const resultSet of results) {
-        for (const result of resultSet) {
-          if (!seenUrls.has(result.url)) {
-            seenUrls.add(result.url)
-            allResults.push(result)
-          }
+    // Only fail when no variation returned anything
+    if (results.length === 0) {
+      throw (settled[0] as PromiseRejectedResult).reason
+    }
+    if (results.length < variationsToUse.length) {
+      console.warn(`Serper: ${variationsToUse.length - results.length} of ${variationsToUse.length} query variations failed`)
+    }
+
+    // Deduplicate by URL
+    for (const resultSet of results) {
+      for (const result of resultSet) {
+        if (!seenUrls.has(result.url)) {
+          seenUrls.add(result.url)
+          allResults.push(result)
         }
       }
+    }
 
-      console.log(`Serper: Retrieved ${allResults.length} unique results from ${variationsToUse.length} queries`)
+    console.log(`Serper: Retrieved ${allResults.length} unique results from ${results.length} queries`)
 
-      return allResults
-    } catch (error) {
-      console.error('Serper multiple search error:', error)
-      // If multiple search fails, fall back to single search
-      console.log('Falling back to single search...')
-      return await this.search(query, 100)
-    }
+    return allResults
   }
 
   /**
    * Search with enhanced query to get fact-checking relevant results
    * Uses parallel requests with query variations to get 30+ unique sources
    */
-  async searchForFactCheck(query: string): Promise<SerperSearchResult[]> {
+  async searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]> {
     // Use searchMultiple to get diverse results from parallel requests
     // This gets us 30+ unique sources by making 3-4 parallel requests with variations
-    return await this.searchMultiple(query, 30)
+    const results = await this.searchMultiple(query, options?.maxResults ?? 30, options)
+
+    return results.map((result, index) => ({
+      url: result.url,
+      title: result.title,
+      snippet: result.content,
+      score: result.score,
+      rank: index + 1,
+      provider: this.name,
+      publishedDate: normalizePublishedDate(result.published_date),
+    }))
   }
 }
@@ -0,0 +1,148 @@
+import { SearchResult, SourceCluster } from '../types'
+
+/**
+ * Near-duplicate detection for retrieved sources
+ *
+ * Outlets often republish the same wire story with small edits. Each source's title and
+ * text (its deep evidence passages when available, its snippet otherwise) is split into
+ * shingles, overlapping runs of SHINGLE_WORDS words, or SHINGLE_CHARS characters for
+ * scripts written without spaces. A MinHash signature of NUM_HASHES values estimates the
+ * Jaccard similarity of two shingle sets, and sources at or above SIMILARITY_THRESHOLD
+ * are grouped into one cluster (transitively).
+ *
+ * Bump ALGORITHM_VERSION in scoring.ts whenever a constant here changes, since clusters
+ * decide how much each source counts.
+ */
+export const SHINGLE_WORDS = 3
+export const SHINGLE_CHARS = 5
+export const NUM_HASHES = 64
+export const SIMILARITY_THRESHOLD = 0.5
+// Texts with fewer shingles are too short to tell reprints from coincidence
+export const MIN_SHINGLES = 4
+
+const MAX_UINT32 = 0xffffffff
+
+/**
+ * 32-bit FNV-1a hash of a string
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// Fixed seeds keep signatures, and therefore clusters, identical across runs
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, index) => fnv1a(`minhash-${index}`))
+
+/**
+ * Mix a shingle hash with a seed into one of the NUM_HASHES hash functions
+ */
+function mix(hash: number, seed: number): number {
+  let value = (hash ^ seed) >>> 0
+  value = Math.imul(value ^ (value >>> 16), 0x85ebca6b)
+  value = Math.imul(value ^ (value >>> 13), 0xc2b2ae35)
+  return (value ^ (value >>> 16)) >>> 0
+}
+
+/**
+ * Shingles of a text, after lowercasing and stripping punctuation
+ */
+export function shingles(text: string): Set<string> {
+  const normalized = text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+  const words = normalized ? normalized.split(' ') : []
+  const result = new Set<string>()
+
+  if (words.length >= SHINGLE_WORDS * 2) {
+    for (let i = 0; i + SHINGLE_WORDS <= words.length; i++) {
+      result.add(words.slice(i, i + SHINGLE_WORDS).join(' '))
+    }
+  } else {
+    // Chinese, Japanese and similar scripts have few or no spaces
+    const characters = normalized.replace(/ /g, '')
+    for (let i = 0; i + SHINGLE_CHARS <= characters.length; i++) {
+      result.add(characters.substring(i, i + SHINGLE_CHARS))
+    }
+  }
+
+  return result
+}
+
+/**
+ * MinHash signature of a shingle set: the smallest value of each hash function
+ */
+export function minhashSignature(shingleSet: Set<string>): number[] {
+  const signature = new Array<number>(NUM_HASHES).fill(MAX_UINT32)
+  for (const shingle of shingleSet) {
+    const hash = fnv1a(shingle)
+    for (let i = 0; i < NUM_HASHES; i++) {
+      const value = mix(hash, SEEDS[i])
+      if (value < signature[i]) signature[i] = value
+    }
+  }
+  return signature
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  let matches = 0
+  for (let i = 0; i < NUM_HASHES; i++) {
+    if (a[i] === b[i]) matches++
+  }
+  return matches / NUM_HASHES
+}
+
+/**
+ * Group sources that carry the same report into clusters
+ * Every source belongs to exactly one cluster; unique reports form clusters of one
+ * The earliest dated member (the first ranked when none is dated) is taken as the original
+ */
+export function clusterSources(sources: SearchResult[]): SourceCluster[] {
+  const signatures = sources.map(source => {
+    const shingleSet = shingles(`${source.title} ${source.passages || source.snippet}`)
+    return shingleSet.size >= MIN_SHINGLES ? minhashSignature(shingleSet) : null
+  })
+
+  // Union-find over similar pairs
+  const parent = sources.map((_, index) => index)
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]]
+      index = parent[index]
+    }
+    return index
+  }
+
+  for (let i = 0; i < sources.length; i++) {
+    const a = signatures[i]
+    if (!a) continue
+    for (let j = i + 1; j < sources.length; j++) {
+      const b = signatures[j]
+      if (b && estimateSimilarity(a, b) >= SIMILARITY_THRESHOLD) {
+        parent[find(j)] = find(i)
+      }
+    }
+  }
+
+  const groups = new Map<number, SearchResult[]>()
+  sources.forEach((source, index) => {
+    const root = find(index)
+    groups.set(root, [...(groups.get(root) || []), source])
+  })
+
+  return [...groups.values()].map(members => {
+    const original = members.reduce((earliest, source) =>
+      source.publishedDate && (!earliest.publishedDate || source.publishedDate < earliest.publishedDate) ? source : earliest
+    )
+    return {
+      id: fnv1a(original.url).toString(16).padStart(8, '0'),
+      originalUrl: original.url,
+      originalTitle: original.title,
+      urls: members.map(source => source.url),
+    }
+  })
+}
@@ -0,0 +1,78 @@
+import { CacheService } from '../db/cache'
+import { TranslationService } from '../db/translations'
+import { OpenAIService } from './openai'
+import { languageName } from './languageDetector'
+import { BudgetExceededError, UsageMeter } from './usage'
+import { AnalysisResult, SummaryTranslation } from '../types'
+
+/**
+ * Translates analysis summaries on demand and stores each translation,
+ * so every language is translated at most once per analysis
+ * Each translation is a model call, so it is refused once the daily budget is spent
+ */
+export class SummaryTranslator {
+  // Translations being made, so concurrent requests for the same one share a model call
+  private pending = new Map<string, Promise<string>>()
+
+  constructor(
+    private cacheService: CacheService,
+    private translationService: TranslationService,
+    private openaiService: OpenAIService,
+    private usageMeter?: UsageMeter
+  ) {}
+
+  /**
+   * Stored summary in the given language, or null when it still needs translating
+   */
+  private stored(result: AnalysisResult, language: string): SummaryTranslation | null {
+    if (language === (result.language || 'en')) {
+      return { analysisId: result.id, language, summary: result.summary, cached: true }
+    }
+
+    const stored = result.summaryTranslations[language] || this.translationService.get(result.id, language)
+    return stored ? { analysisId: result.id, language, summary: stored, cached: true } : null
+  }
+
+  /**
+   * Whether translating the summary takes a model call
+   * False when the analysis does not exist or the translation is stored
+   */
+  needsTranslation(analysisId: string, language: string): boolean {
+    const result = this.cacheService.getShared(analysisId)
+    return result !== null && this.stored(result, language) === null
+  }
+
+  /**
+   * Summary of an analysis in the given language
+   * Returns null when the analysis does not exist or has expired
+   */
+  async translate(analysisId: string, language: string): Promise<SummaryTranslation | null> {
+    const result = this.cacheService.getShared(analysisId)
+    if (!result) return null
+
+    const stored = this.stored(result, language)
+    if (stored) return stored
+
+    const key = `${analysisId}:${language}`
+    let pending = this.pending.get(key)
+    if (!pending) {
+      // There is no cheaper translation to downgrade to, so a spent budget refuses it either way
+      const budget = this.usageMeter?.budget()
+      if (budget?.exceeded) {
+        throw new BudgetExceededError(budget.dailyBudgetUsd!)
+      }
+
+      const sourceLanguage = result.language || 'en'
+      pending = this.openaiService
+        .translateSummary(result.summary, languageName(sourceLanguage) || sourceLanguage, languageName(language) || language)
+        .then(summary => {
+          this.translationService.set(analysisId, language, summary)
+          return summary
+        })
+        .finally(() => this.pending.delete(key))
+      this.pending.set(key, pending)
+    }
+
+    return { analysisId, language, summary: await pending, cached: false }
+  }
+}
@@ -0,0 +1,44 @@
+export interface SweepTask {
+  // What the task removes, for the log ("expired cache entries")
+  name: string
+  // Returns how many rows were removed
+  run: () => number
+}
+
+/**
+ * Runs cleanup tasks on startup and then periodically, so expired rows do not pile up
+ * on a server that stays up for weeks
+ * Tasks run in order, so one can clean up after those before it
+ */
+export class Sweeper {
+  private timer: NodeJS.Timeout | null = null
+
+  constructor(private tasks: SweepTask[]) {}
+
+  /**
+   * Run every task once, logging those that removed something
+   */
+  sweep(): void {
+    for (const task of this.tasks) {
+      try {
+        const removed = task.run()
+        if (removed > 0) console.log(`Deleted ${removed} ${task.name}`)
+      } catch (error) {
+        console.error(`Error deleting ${task.name}:`, error)
+      }
+    }
+  }
+
+  start(intervalMs: number): void {
+    this.stop()
+    this.sweep()
+    this.timer = setInterval(() => this.sweep(), intervalMs)
+    // Sweeping alone does not keep the process running
+    this.timer.unref()
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer)
+    this.timer = null
+  }
+}
@@ -1,42 +1,56 @@
-import { TavilyResponse, TavilySearchResult } from '../types'
+import { SearchResult, TavilyResponse, TavilySearchResult } from '../types'
+import { SearchOptions, SearchProvider } from './searchProvider'
+import { DEFAULT_RESILIENCE, ResilienceConfig, ResilientCaller, providerErrorFromResponse } from './resilience'
+import { UsageMeter } from './usage'
+import { normalizePublishedDate } from '../utils/dates'
 
-export class TavilyService {
+export class TavilyService implements SearchProvider {
+  readonly name = 'tavily'
   private apiKey: string
   private apiUrl = 'https://api.tavily.com/search'
+  private caller: ResilientCaller
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, resilience: ResilienceConfig = DEFAULT_RESILIENCE, private meter?: UsageMeter) {
     if (!apiKey) {
       throw new Error('TAVILY_API_KEY is required')
     }
     this.apiKey = apiKey
+    this.caller = new ResilientCaller(this.name, resilience)
   }
 
-  async search(query: string, maxResults: number = 10): Promise<TavilySearchResult[]> {
+  async search(query: string, maxResults: number = 10, options: SearchOptions = {}): Promise<TavilySearchResult[]> {
     try {
       // Tavily API has a max limit of 20 results per request
       const actualMaxResults = Math.min(maxResults, 20)
 
-      const response = await fetch(this.apiUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          api_key: this.apiKey,
-          query,
-          max_results: actualMaxResults,
-          search_depth: 'advanced',
-          include_answer: false,
-          include_raw_content: false,
-        }),
-      })
+      const startTime = Date.now()
+      const data = await this.caller.call('search', async signal => {
+        const response = await fetch(this.apiUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            api_key: this.apiKey,
+            query,
+            max_results: actualMaxResults,
+            search_depth: 'advanced',
+            include_answer: false,
+            include_raw_content: false,
+            ...(options.dateRange?.from && { start_date: options.dateRange.from }),
+            ...(options.dateRange?.to && { end_date: options.dateRange.to }),
+          }),
+          signal,
+        })
 
-      if (!response.ok) {
-        const error = await response.text()
-        throw new Error(`Tavily API error: ${response.status} - ${error}`)
-      }
+        if (!response.ok) {
+          throw await providerErrorFromResponse(this.name, response, 'Tavily API')
+        }
 
-      const data = await response.json() as TavilyResponse
+        return await response.json() as TavilyResponse
+      })
+      // Advanced search depth costs 2 credits
+      this.meter?.recordSearch(this.name, 'search', 2, Date.now() - startTime)
 
       return data.results.map(result => ({
         url: result.url,
@@ -51,52 +65,74 @@ export class TavilyService {
     }
   }
 
-  async searchMultiple(query: string, targetMinResults: number = 25): Promise<TavilySearchResult[]> {
-    try {
-      const allResults: TavilySearchResult[] = []
-      const seenUrls = new Set<string>()
-
-      // Generate search variations to get diverse results
-      const searchVariations = [
-        query, // Original query
-        `${query} fact check`,
-        `${query} evidence`,
-        `${query} research study`,
-        `${query} news report`,
-      ]
-
-      // Perform searches until we reach target or exhaust variations
-      for (const searchQuery of searchVariations) {
-        if (allResults.length >= targetMinResults) {
-          break
-        }
+  /**
+   * Search query variations one after another until enough unique results are found
+   * When a later variation fails, the results found so far are kept
+   */
+  async searchMultiple(query: string, targetMinResults: number = 25, options: SearchOptions = {}): Promise<TavilySearchResult[]> {
+    const allResults: TavilySearchResult[] = []
+    const seenUrls = new Set<string>()
 
-        console.log(`Searching with variation: "${searchQuery}"`)
-        const results = await this.search(searchQuery, 20)
+    // Generate search variations to get diverse results
+    const searchVariations = [
+      query, // Original query
+      `${query} fact check`,
+      `${query} evidence`,
+      `${query} research study`,
+      `${query} news report`,
+    ]
 
-        // Add only unique results (deduplicate by URL)
-        for (const result of results) {
-          if (!seenUrls.has(result.url)) {
-            seenUrls.add(result.url)
-            allResults.push(result)
-          }
-        }
+    // Perform searches until we reach target or exhaust variations
+    for (const searchQuery of searchVariations) {
+      if (allResults.length >= targetMinResults) {
+        break
+      }
 
-        console.log(`Total unique sources so far: ${allResults.length}`)
+      console.log(`Searching with variation: "${searchQuery}"`)
+      let results: TavilySearchResult[]
+      try {
+        results = await this.search(searchQuery, Math.min(targetMinResults, 20), options)
+      } catch (error) {
+        if (allResults.length === 0) throw error
+        console.warn(`Tavily: stopping after a failed variation, keeping ${allResults.length} results`)
+        break
+      }
 
-        // Small delay between requests to be respectful to the API
-        if (allResults.length < targetMinResults) {
-          await new Promise(resolve => setTimeout(resolve, 500))
+      // Add only unique results (deduplicate by URL)
+      for (const result of results) {
+        if (!seenUrls.has(result.url)) {
+          seenUrls.add(result.url)
+          allResults.push(result)
         }
       }
 
-      console.log(`Retrieved ${allResults.length} total unique sources`)
-      return allResults
-    } catch (error) {
-      console.error('Multiple search error:', error)
-      // If multiple search fails, fall back to single search
-      console.log('Falling back to single search...')
-      return await this.search(query, 20)
+      console.log(`Total unique sources so far: ${allResults.length}`)
+
+      // Small delay between requests to be respectful to the API
+      if (allResults.length < targetMinResults) {
+        await new Promise(resolve => setTimeout(resolve, 500))
+      }
     }
+
+    console.log(`Retrieved ${allResults.length} total unique sources`)
+    return allResults
+  }
+
+  /**
+   * Search with query variations to get enough sources for fact-checking
+   * Tavily has no language filter; a query in the claim's language already favours pages in it
+   */
+  async searchForFactCheck(query: string, options?: SearchOptions): Promise<SearchResult[]> {
+    const results = await this.searchMultiple(query, options?.maxResults ?? 30, options)
+
+    return results.map((result, index) => ({
+      url: result.url,
+      title: result.title,
+      snippet: result.content,
+      score: result.score,
+      rank: index + 1,
+      provider: this.name,
+      publishedDate: normalizePublishedDate(result.published_date),
+    }))
   }
 }
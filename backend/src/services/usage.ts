@@ -0,0 +1,186 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { UsageConfig } from '../config'
+import { ProviderCall, UsageService } from '../db/usage'
+import { AnalysisUsage } from '../types'
+import { LLMProvider, LLMRequest, LLMResponse, LLMTask } from './llmProvider'
+
+/**
+ * Token, search credit, cost and latency accounting for provider calls
+ *
+ * Providers report each successful call to the UsageMeter, which logs it through
+ * UsageService and adds it to the analysis it was made for. The analysis is found through
+ * AsyncLocalStorage, so parallel claims and concurrent jobs are counted separately
+ * without passing an ID through every call. Costs are estimates from configured prices.
+ */
+
+export interface TokenPrice {
+  // USD per million tokens
+  input: number
+  output: number
+}
+
+export type BudgetAction = 'refuse' | 'downgrade'
+
+export const DEFAULT_LLM_PRICES: Record<string, TokenPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+}
+
+export const DEFAULT_SEARCH_CREDIT_PRICES: Record<string, number> = {
+  serper: 0.001,
+  tavily: 0.008,
+}
+
+/**
+ * The day's budget is spent and BUDGET_ACTION is refuse
+ */
+export class BudgetExceededError extends Error {
+  constructor(budgetUsd: number) {
+    super(`The daily budget of $${budgetUsd} is used up. Please try again after midnight UTC.`)
+    this.name = 'BudgetExceededError'
+  }
+}
+
+function emptyUsage(): AnalysisUsage {
+  return {
+    llmCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    searchCalls: 0,
+    searchCredits: 0,
+    costUsd: 0,
+    providerLatencyMs: 0,
+    durationMs: 0,
+  }
+}
+
+interface UsageScope {
+  analysisId: string
+  usage: AnalysisUsage
+}
+
+export class UsageMeter {
+  private scope = new AsyncLocalStorage<UsageScope>()
+  private unpricedModels = new Set<string>()
+
+  constructor(
+    private config: UsageConfig,
+    private usageService?: UsageService
+  ) {}
+
+  /**
+   * Price of a model, matching dated versions (gpt-4o-mini-2024-07-18) to the longest configured prefix
+   */
+  private priceOf(model: string): TokenPrice | undefined {
+    if (this.config.llmPrices[model]) return this.config.llmPrices[model]
+
+    const prefix = Object.keys(this.config.llmPrices)
+      .filter(name => model.startsWith(`${name}-`))
+      .sort((a, b) => b.length - a.length)[0]
+    return prefix ? this.config.llmPrices[prefix] : undefined
+  }
+
+  recordLLM(provider: string, task: LLMTask, model: string, usage: LLMResponse['usage'], latencyMs: number): void {
+    const promptTokens = usage?.promptTokens || 0
+    const completionTokens = usage?.completionTokens || 0
+    const price = this.priceOf(model)
+    if (!price && !this.unpricedModels.has(model)) {
+      this.unpricedModels.add(model)
+      console.warn(`No price configured for model ${model}, its calls are counted as free (set LLM_PRICES)`)
+    }
+
+    this.record({
+      kind: 'llm',
+      provider,
+      operation: task,
+      model,
+      promptTokens,
+      completionTokens,
+      searchCredits: 0,
+      costUsd: price ? (promptTokens * price.input + completionTokens * price.output) / 1_000_000 : 0,
+      latencyMs,
+    })
+  }
+
+  recordSearch(provider: string, operation: string, credits: number, latencyMs: number): void {
+    this.record({
+      kind: 'search',
+      provider,
+      operation,
+      promptTokens: 0,
+      completionTokens: 0,
+      searchCredits: credits,
+      costUsd: credits * (this.config.searchCreditPrices[provider] ?? 0),
+      latencyMs,
+    })
+  }
+
+  private record(call: ProviderCall): void {
+    const scope = this.scope.getStore()
+    this.usageService?.record(call, scope?.analysisId)
+    if (!scope) return
+
+    const usage = scope.usage
+    if (call.kind === 'llm') usage.llmCalls++
+    else usage.searchCalls++
+    usage.promptTokens += call.promptTokens
+    usage.completionTokens += call.completionTokens
+    usage.searchCredits += call.searchCredits
+    usage.costUsd += call.costUsd
+    usage.providerLatencyMs += Math.round(call.latencyMs)
+  }
+
+  /**
+   * Run an analysis and sum the provider calls it makes
+   */
+  async track<T>(analysisId: string, fn: () => Promise<T>): Promise<{ result: T; usage: AnalysisUsage }> {
+    const startTime = Date.now()
+    const scope: UsageScope = { analysisId, usage: emptyUsage() }
+    const result = await this.scope.run(scope, fn)
+
+    const usage = scope.usage
+    usage.costUsd = parseFloat(usage.costUsd.toFixed(6))
+    usage.durationMs = Date.now() - startTime
+    return { result, usage }
+  }
+
+  /**
+   * Today's spend against the daily budget
+   */
+  budget(): { dailyBudgetUsd?: number; spentTodayUsd: number; action: BudgetAction; exceeded: boolean } {
+    const spentTodayUsd = parseFloat((this.usageService?.costOn() ?? 0).toFixed(6))
+    const { dailyBudgetUsd, budgetAction } = this.config
+    return {
+      dailyBudgetUsd,
+      spentTodayUsd,
+      action: budgetAction,
+      exceeded: dailyBudgetUsd !== undefined && spentTodayUsd >= dailyBudgetUsd,
+    }
+  }
+}
+
+/**
+ * Reports every completed LLM call to the usage meter
+ * Failed calls return no token counts and are not recorded
+ */
+export class MeteredLLMProvider implements LLMProvider {
+  readonly name: string
+
+  constructor(
+    private provider: LLMProvider,
+    private meter: UsageMeter
+  ) {
+    this.name = provider.name
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now()
+    const response = await this.provider.complete(request)
+    this.meter.recordLLM(this.name, request.task, response.model, response.usage, Date.now() - startTime)
+    return response
+  }
+}
@@ -2,6 +2,8 @@ import dotenv from 'dotenv'
 import { AskNewsService } from './services/asknews'
 import { TavilyService } from './services/tavily'
 import { LanguageDetectorService } from './services/languageDetector'
+import { createLLMProvider } from './services/llmProvider'
+import { loadConfig } from './config'
 
 dotenv.config()
 
@@ -55,12 +57,11 @@ class AskNewsTestSuite {
     }
 
     // Initialize language detector
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (openaiApiKey) {
-      this.languageDetector = new LanguageDetectorService(openaiApiKey)
+    try {
+      this.languageDetector = new LanguageDetectorService(createLLMProvider(loadConfig().llm))
       console.log('✓ Language detector initialized')
-    } else {
-      console.log('✗ OpenAI credentials not found in .env')
+    } catch (error) {
+      console.log(`✗ LLM provider not configured: ${error instanceof Error ? error.message : error}`)
     }
   }
 
@@ -324,10 +325,10 @@ class AskNewsTestSuite {
         n_articles: 10,
       })
 
-      // Convert to Tavily format
-      const converted = this.askNewsService.convertToTavilyFormat(articles)
+      // Convert to the shared search result format
+      const converted = this.askNewsService.toSearchResults(articles)
 
-      console.log('Testing conversion to Tavily-compatible format...\n')
+      console.log('Testing conversion to shared search result format...\n')
       console.log(`Converted ${articles.length} articles`)
 
       if (converted.length > 0) {
@@ -335,13 +336,15 @@ class AskNewsTestSuite {
         console.log('\nConverted structure:')
         console.log(`- url: ${sample.url}`)
         console.log(`- title: ${sample.title}`)
-        console.log(`- content: ${sample.content.substring(0, 100)}...`)
+        console.log(`- snippet: ${sample.snippet.substring(0, 100)}...`)
         console.log(`- score: ${sample.score}`)
-        console.log(`- published_date: ${sample.published_date}`)
+        console.log(`- rank: ${sample.rank}`)
+        console.log(`- provider: ${sample.provider}`)
+        console.log(`- publishedDate: ${sample.publishedDate}`)
 
         // Validate required fields
         const allValid = converted.every(item =>
-          item.url && item.title && item.content && typeof item.score === 'number'
+          item.url && item.title && item.snippet && typeof item.score === 'number'
         )
 
         console.log(`\n✓ All converted items have required fields: ${allValid}`)
@@ -0,0 +1,111 @@
+import { initializeDatabase } from './db/schema'
+import { CacheService } from './db/cache'
+import { HistoryService } from './db/history'
+import { JobService } from './db/jobs'
+import { CacheConfig } from './config'
+import { AnalysisResult } from './types'
+
+/**
+ * Test script for the cache sweep
+ *
+ * This tests:
+ * 1. Expired analyses are removed by the sweep
+ * 2. Expired analyses in a user's history survive it and still open by ID
+ * 3. Expired analyses are not served for new requests, whether kept or not
+ * 4. Finished jobs are kept as long as CACHE_TTL_HOURS, like the analyses they made
+ *
+ * Usage: npm run test:cache
+ */
+
+const CACHE_CONFIG: CacheConfig = { ttlHours: 168, timeSensitiveTtlHours: 24, similarityThreshold: 0, sweepIntervalMinutes: 60 }
+
+let failures = 0
+
+function check(description: string, passed: boolean) {
+  console.log(`${passed ? '✓' : '✗'} ${description}`)
+  if (!passed) failures++
+}
+
+function cachedAnalysis(id: string, contentText: string): Omit<AnalysisResult, 'cached'> {
+  return {
+    id,
+    contentText,
+    accuracyScore: 50,
+    agreementScore: 40,
+    disagreementScore: 40,
+    neutralScore: 20,
+    summary: '',
+    summaryTranslations: {},
+    sources: [],
+    totalSourcesRetrieved: 0,
+    claims: [],
+    algorithmVersion: 'test',
+    analyzedAt: new Date().toISOString(),
+  }
+}
+
+function testSweep() {
+  console.log('\n=== Sweep ===\n')
+
+  const db = initializeDatabase(':memory:')
+  const cacheService = new CacheService(db, CACHE_CONFIG)
+  const historyService = new HistoryService(db)
+
+  const saved = cachedAnalysis('saved', 'The Great Wall of China is visible from space')
+  const unsaved = cachedAnalysis('unsaved', 'Lightning never strikes the same place twice')
+  const fresh = cachedAnalysis('fresh', 'Goldfish have a three-second memory')
+  for (const result of [saved, unsaved, fresh]) cacheService.set(result)
+  historyService.addResult('user', { ...saved, cached: false })
+
+  // Made 8 days ago, past the 7-day lifetime
+  db.prepare(`UPDATE analyses SET created_at = datetime('now', '-8 days') WHERE id IN ('saved', 'unsaved')`).run()
+
+  const removed = cacheService.deleteOld()
+  check('The sweep removes only the expired analysis outside any history', removed === 1)
+  check('An expired analysis outside any history is gone', cacheService.getShared('unsaved') === null)
+  check('An expired analysis in a history still opens by ID', cacheService.getShared('saved')?.id === 'saved')
+  check('An expired analysis in a history is not served for its text', cacheService.get(saved.contentText) === null)
+  check('An analysis that has not expired is kept', cacheService.get(fresh.contentText)?.id === 'fresh')
+
+  historyService.remove('user', 'saved')
+  check('Once out of the history, it goes with the next sweep', cacheService.deleteOld() === 1 && cacheService.getShared('saved') === null)
+
+  db.close()
+}
+
+function testJobs() {
+  console.log('\n=== Jobs ===\n')
+
+  const db = initializeDatabase(':memory:')
+  const finishedDaysAgo = (jobService: JobService, days: number) => {
+    const job = jobService.create(`Job finished ${days} days ago`)
+    jobService.complete(job.id, 'analysis')
+    db.prepare(`UPDATE jobs SET completed_at = datetime('now', ?) WHERE id = ?`).run(`-${days} days`, job.id)
+    return job.id
+  }
+
+  const weekly = new JobService(db, CACHE_CONFIG)
+  const recent = finishedDaysAgo(weekly, 6)
+  const old = finishedDaysAgo(weekly, 8)
+  const queued = weekly.create('Job still queued')
+  db.prepare(`UPDATE jobs SET created_at = datetime('now', '-30 days') WHERE id = ?`).run(queued.id)
+
+  check('Jobs finished within CACHE_TTL_HOURS are kept', weekly.deleteOld() === 1 && weekly.get(recent) !== null)
+  check('  older ones are removed', weekly.get(old) === null)
+  check('  and unfinished jobs are never removed', weekly.get(queued.id) !== null)
+
+  const daily = new JobService(db, { ...CACHE_CONFIG, ttlHours: 24 })
+  check('A shorter CACHE_TTL_HOURS removes jobs sooner', daily.deleteOld() === 1 && daily.get(recent) === null)
+
+  db.close()
+}
+
+function main() {
+  testSweep()
+  testJobs()
+
+  console.log(failures === 0 ? '\nAll checks passed\n' : `\n${failures} checks failed\n`)
+  if (failures > 0) process.exit(1)
+}
+
+main()
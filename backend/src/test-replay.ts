@@ -0,0 +1,100 @@
+import fs from 'fs'
+import path from 'path'
+import { initializeDatabase } from './db/schema'
+import { CacheService } from './db/cache'
+import { CredibilityService } from './db/credibility'
+import { ArticleFetcher } from './services/articleFetcher'
+import { FactCheckerService } from './services/factChecker'
+import { LanguageDetectorService } from './services/languageDetector'
+import { OpenAIService } from './services/openai'
+import { FixtureStore, ReplayLLMProvider, ReplaySearchProvider, fixtureClock } from './services/replay'
+import { AnalysisResult } from './types'
+
+/**
+ * Test script for offline replay
+ *
+ * Replays every analysis in fixtures/analyses from the recorded responses in fixtures/,
+ * without API keys, and checks it gives the stored result.
+ * After an intended change to scoring or prompts, rewrite the stored results with --update.
+ * Analyses whose prompts changed need recording again with PROVIDER_MODE=record.
+ *
+ * Usage: npm run test:replay [-- --update]
+ */
+
+const FIXTURES_DIR = path.resolve(__dirname, '../fixtures')
+const ANALYSES_DIR = path.join(FIXTURES_DIR, 'analyses')
+
+interface StoredAnalysis {
+  contentText: string
+  result: Omit<AnalysisResult, 'id' | 'analyzedAt' | 'cached'>
+}
+
+let failures = 0
+
+function check(description: string, passed: boolean, detail: string = '') {
+  console.log(`${passed ? '✓' : '✗'} ${description}${detail ? ` (${detail})` : ''}`)
+  if (!passed) failures++
+}
+
+/**
+ * A fact checker that only sees the recorded fixtures, as in PROVIDER_MODE=replay
+ */
+function replayFactChecker(): FactCheckerService {
+  const db = initializeDatabase(':memory:')
+  const store = new FixtureStore(FIXTURES_DIR)
+  const llm = new ReplayLLMProvider(store)
+  return new FactCheckerService(
+    new ReplaySearchProvider(store),
+    new OpenAIService(llm),
+    new CacheService(db, { ttlHours: 168, timeSensitiveTtlHours: 24, similarityThreshold: 0, sweepIntervalMinutes: 60 }),
+    new CredibilityService(db),
+    new ArticleFetcher({ timeoutMs: 10000, maxBytes: 2_000_000, maxRedirects: 5 }),
+    new LanguageDetectorService(llm),
+    undefined,
+    undefined,
+    fixtureClock(store)
+  )
+}
+
+/**
+ * The parts of a result a replay must reproduce; its ID and time differ on every run
+ */
+function comparable(result: AnalysisResult): StoredAnalysis['result'] {
+  const { id, analyzedAt, cached, ...rest } = result
+  return rest
+}
+
+async function main() {
+  const update = process.argv.includes('--update')
+  const files = fs.readdirSync(ANALYSES_DIR).filter(file => file.endsWith('.json')).sort()
+
+  for (const file of files) {
+    const stored = JSON.parse(fs.readFileSync(path.join(ANALYSES_DIR, file), 'utf-8')) as StoredAnalysis
+    console.log(`\n=== ${file} ===\n`)
+
+    let result: AnalysisResult
+    try {
+      result = await replayFactChecker().analyzePost(stored.contentText)
+    } catch (error) {
+      check(`${file} replays`, false, error instanceof Error ? error.message : String(error))
+      continue
+    }
+
+    if (update) {
+      const updated: StoredAnalysis = { contentText: stored.contentText, result: comparable(result) }
+      fs.writeFileSync(path.join(ANALYSES_DIR, file), JSON.stringify(updated, null, 2) + '\n')
+      console.log(`Updated ${file}`)
+      continue
+    }
+
+    check(`${file} replays without API keys`, true)
+    check('  with the stored score', result.accuracyScore === stored.result.accuracyScore, `${result.accuracyScore}`)
+    check('  and the stored result', JSON.stringify(comparable(result)) === JSON.stringify(stored.result))
+  }
+
+  if (update) return
+  console.log(failures === 0 ? `\nAll ${files.length} analyses replayed\n` : `\n${failures} checks failed\n`)
+  if (failures > 0) process.exit(1)
+}
+
+main()
@@ -0,0 +1,127 @@
+import { initializeDatabase } from './db/schema'
+import { CacheService } from './db/cache'
+import { AnalysisResult } from './types'
+import { fingerprint, sameClaimSet, similarity, termsAgree } from './utils/similarity'
+
+/**
+ * Test script for paraphrase matching in the semantic cache
+ *
+ * This tests:
+ * 1. Texts with a word swapped for its opposite are never served for each other
+ * 2. The request's paraphrase example is only served when its extracted claims match
+ * 3. Rewordings that keep the claim terms are served
+ * 4. Paraphrase matching is off unless SEMANTIC_CACHE_THRESHOLD is set
+ *
+ * Usage: npm run test:similarity
+ */
+
+let failures = 0
+
+function check(description: string, passed: boolean, detail: string = '') {
+  console.log(`${passed ? '✓' : '✗'} ${description}${detail ? ` (${detail})` : ''}`)
+  if (!passed) failures++
+}
+
+function compare(a: string, b: string): { score: number; agree: boolean } {
+  const left = fingerprint(a)
+  const right = fingerprint(b)
+  return { score: similarity(left, right), agree: termsAgree(left, right) }
+}
+
+function cachedAnalysis(id: string, contentText: string, claims: string[]): Omit<AnalysisResult, 'cached'> {
+  return {
+    id,
+    contentText,
+    accuracyScore: 50,
+    agreementScore: 40,
+    disagreementScore: 40,
+    neutralScore: 20,
+    summary: '',
+    summaryTranslations: {},
+    sources: [],
+    totalSourcesRetrieved: 0,
+    claims: claims.map(claim => ({
+      claim,
+      accuracyScore: 50,
+      agreementScore: 40,
+      disagreementScore: 40,
+      neutralScore: 20,
+      summary: '',
+      sources: [],
+      totalSourcesRetrieved: 0,
+      scoreBreakdown: { algorithmVersion: 'test', supportWeight: 0, contradictWeight: 0, neutralWeight: 0, prior: 0, evidence: [] },
+    })),
+    algorithmVersion: 'test',
+    analyzedAt: new Date().toISOString(),
+  }
+}
+
+function testAntonyms() {
+  console.log('\n=== Opposite claims ===\n')
+
+  const pairs = [
+    ['Coffee increases the risk of heart disease', 'Coffee decreases the risk of heart disease'],
+    ['The moon landing was faked by NASA', 'The moon landing was filmed by NASA'],
+    ['Biden won the 2020 election', 'Trump won the 2020 election'],
+  ]
+  for (const [a, b] of pairs) {
+    const { score, agree } = compare(a, b)
+    check(`"${a}" and "${b}" use different terms`, !agree, `similarity ${score.toFixed(3)}`)
+    check('  and their claims differ', !sameClaimSet([a], [b]))
+  }
+}
+
+function testParaphrases() {
+  console.log('\n=== Paraphrases ===\n')
+
+  const example = compare('Drinking 8 glasses of water a day is a myth', 'The 8-glasses-of-water rule is a myth')
+  check('The request example uses different terms', !example.agree, `similarity ${example.score.toFixed(3)}`)
+  check(
+    '  and matches when both texts extract the same claim',
+    sameClaimSet(['Drinking 8 glasses of water a day is not necessary.'], ['drinking 8 glasses of water a day is not necessary'])
+  )
+  check(
+    '  but not when one extracts a claim more',
+    !sameClaimSet(
+      ['Drinking 8 glasses of water a day is not necessary.'],
+      ['Drinking 8 glasses of water a day is not necessary.', 'Coffee counts towards daily water intake.']
+    )
+  )
+
+  const passive = compare('Coffee increases the risk of heart disease', 'The risk of heart disease is increased by coffee')
+  check('A passive rewording keeps the terms', passive.agree && passive.score >= 0.85, `similarity ${passive.score.toFixed(3)}`)
+
+  const harm = compare('Sugar is harmful for children', 'Sugar is harmless for children')
+  check('"harmful" and "harmless" are different terms', !harm.agree, `similarity ${harm.score.toFixed(3)}`)
+}
+
+function testCache() {
+  console.log('\n=== Cache ===\n')
+
+  const config = { ttlHours: 168, timeSensitiveTtlHours: 24, similarityThreshold: 0, sweepIntervalMinutes: 60 }
+  const db = initializeDatabase(':memory:')
+  const text = 'Coffee increases the risk of heart disease'
+  new CacheService(db, config).set(cachedAnalysis('coffee', text, [text]))
+
+  const off = new CacheService(db, config)
+  check('Paraphrases are not matched by default', off.getSimilar('The risk of heart disease is increased by coffee') === null)
+
+  const on = new CacheService(db, { ...config, similarityThreshold: 0.85 })
+  const opposite = on.getSimilar('Coffee decreases the risk of heart disease')
+  check('An opposite claim is only a candidate', opposite !== null && !opposite.termsAgree)
+  const reworded = on.getSimilar('The risk of heart disease is increased by coffee')
+  check('A rewording is served', reworded?.result.id === 'coffee' && reworded.termsAgree)
+
+  db.close()
+}
+
+function main() {
+  testAntonyms()
+  testParaphrases()
+  testCache()
+
+  console.log(failures === 0 ? '\nAll checks passed\n' : `\n${failures} checks failed\n`)
+  if (failures > 0) process.exit(1)
+}
+
+main()
@@ -6,35 +6,338 @@ export interface AnalysisResult {
   disagreementScore: number;
   neutralScore: number;
   summary: string;
+  // Translations made up front by older versions; new ones come from GET /analyses/:id/translations/:lang
   summaryTranslations: {
-    ar?: string;
-    fr?: string;
-    tr?: string;
-    fa?: string;
-    ur?: string;
-    hi?: string;
-    es?: string;
-    de?: string;
-    pt?: string;
-    ja?: string;
-    zh?: string;
-    it?: string;
-    sv?: string;
+    [language: string]: string;
   };
   sources: Source[];
   totalSourcesRetrieved: number;
+  claims: ClaimResult[];
+  algorithmVersion: string;
+  // ISO 639-1 code of the analyzed content; the summary is written in this language
+  language?: string;
+  // Set when the content was fetched from a URL
+  origin?: ContentOrigin;
+  // Set when the analysis only used evidence published in this window
+  dateRange?: DateRange;
+  // Some steps failed and the analysis went on with less evidence; see warnings
+  partial?: boolean;
+  warnings?: AnalysisWarning[];
+  // Provider calls the analysis made, and what they cost
+  usage?: AnalysisUsage;
   analyzedAt: string;
   cached: boolean;
+  // Set when an earlier analysis of a similar text was served instead of a new one
+  cacheMatch?: CacheMatch;
+}
+
+export interface CacheMatch {
+  // The earlier analysis, whose text differs from the submitted one
+  analysisId: string;
+  contentText: string;
+  // Similarity of the two texts, from the threshold up to 1
+  similarity: number;
+}
+
+export type AnalysisWarningCode = 'claim_failed' | 'sources_skipped' | 'summary_unavailable' | 'budget_downgraded';
+
+// A step that failed without failing the whole analysis
+export interface AnalysisWarning {
+  code: AnalysisWarningCode;
+  message: string;
+  // The claim the warning is about, when it is about one
+  claim?: string;
+  // Number of sources left out (sources_skipped)
+  count?: number;
+}
+
+export interface AnalysisUsage {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  searchCalls: number;
+  searchCredits: number;
+  // Estimated from the configured prices
+  costUsd: number;
+  // Time spent waiting on providers, summed over calls; calls run in parallel, so this can exceed durationMs
+  providerLatencyMs: number;
+  durationMs: number;
+}
+
+export interface ContentOrigin {
+  type: 'url';
+  // Submitted URL and the final URL after redirects
+  url: string;
+  finalUrl: string;
+  title?: string;
+  author?: string;
+  publishedDate?: string;
+  siteName?: string;
+  // The article was longer than the analysis limit and was cut
+  truncated: boolean;
+  fetchedAt: string;
+}
+
+export interface ClaimResult {
+  claim: string;
+  // The claim is about a recent or ongoing event, so newer evidence counts much more
+  timeSensitive?: boolean;
+  // Date (YYYY-MM-DD) of the event the claim refers to, when the content gives one
+  eventDate?: string;
+  staleEvidence?: StaleEvidenceWarning;
+  accuracyScore: number;
+  agreementScore: number;
+  disagreementScore: number;
+  neutralScore: number;
+  summary: string;
+  sources: Source[];
+  totalSourcesRetrieved: number;
+  // Retrieved sources after grouping republished copies of the same report
+  independentReports?: number;
+  // Groups of two or more sources carrying the same report
+  clusters?: SourceCluster[];
+  scoreBreakdown: ScoreBreakdown;
+}
+
+// Sources that republish the same report, such as one wire story printed by many outlets
+export interface SourceCluster {
+  id: string;
+  // Earliest published member, taken as the original report
+  originalUrl: string;
+  originalTitle: string;
+  urls: string[];
+}
+
+// A source's place in its cluster, for display
+export interface SourceClusterMembership {
+  id: string;
+  size: number;
+  original: boolean;
+}
+
+// Most dated evidence for a claim was published before the event it refers to
+export interface StaleEvidenceWarning {
+  eventDate: string;
+  predating: number;
+  dated: number;
+}
+
+export interface Evidence {
+  url: string;
+  relevance: 'supporting' | 'contradicting' | 'neutral';
+  publishedDate?: string;
+  // Cluster of republished copies the source belongs to (missing before credibility-weighted-v4)
+  clusterId?: string;
+  confidence: number;
+  credibility: number;
+  recency: number;
+  independence: number;
+  weight: number;
+}
+
+export interface ScoreBreakdown {
+  algorithmVersion: string;
+  supportWeight: number;
+  contradictWeight: number;
+  neutralWeight: number;
+  prior: number;
+  // Time-sensitive claims use a shorter recency half-life (missing before credibility-weighted-v3)
+  timeSensitive?: boolean;
+  // Time recency was measured from; with the evidence, it reproduces the score (missing in older analyses)
+  referenceDate?: string;
+  evidence: Evidence[];
 }
 
 export interface Source {
   url: string;
   title: string;
   relevance: 'supporting' | 'contradicting' | 'neutral';
+  outlet?: Outlet;
+  // ISO 8601, normalized from the search provider's date
+  publishedDate?: string;
+  cluster?: SourceClusterMembership;
+}
+
+export type OutletType =
+  | 'wire'
+  | 'news'
+  | 'academic'
+  | 'government'
+  | 'reference'
+  | 'fact-checker'
+  | 'tabloid'
+  | 'social'
+  | 'blog'
+  | 'satire';
+
+export interface Outlet {
+  name: string;
+  type: OutletType;
+  reliabilityTier: number;
+}
+
+export interface DomainCredibility extends Outlet {
+  domain: string;
+}
+
+// An API key as listed to admins; the key itself is only shown once, when it is issued
+export interface ApiKey {
+  id: string;
+  name: string;
+  // First characters of the key, to tell keys apart
+  prefix: string;
+  // Overrides the server defaults when set
+  dailyQuota?: number;
+  rateLimitPerMinute?: number;
+  createdAt: string;
+  lastUsedAt?: string;
+  revokedAt?: string;
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  limit: number;
+  used: number;
+  // Start of the next UTC day, when the count starts over
+  resetsAt: string;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+export interface Session {
+  // Sent as the X-Session-Token header; only its hash is stored
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+export interface HistoryEntry {
+  analysisId: string;
+  contentText: string;
+  accuracyScore: number;
+  analyzedAt: string;
+}
+
+export interface HistoryPage {
+  items: HistoryEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface CategorizedSource extends Source {
+  confidence?: number;
+}
+
+export interface SearchResult {
+  url: string;
+  title: string;
+  snippet: string;
+  score: number;
+  rank: number;
+  provider: string;
+  publishedDate?: string;
+  // Passages from the full page most relevant to the claim (deep evidence)
+  passages?: string;
 }
 
 export interface AnalysisRequest {
+  // Either contentText or url is required
+  contentText?: string;
+  url?: string;
+  // Return a job ID right away instead of waiting for the result
+  async?: boolean;
+  // Only use evidence published in this window
+  dateRange?: DateRange;
+  // Run a new analysis even when a cached one exists
+  forceRefresh?: boolean;
+}
+
+// Calendar dates as YYYY-MM-DD, both ends inclusive; either end may be left open
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+// A claim extracted from the content, with what the model could tell about its timing
+export interface ExtractedClaim {
+  claim: string;
+  timeSensitive: boolean;
+  eventDate?: string;
+}
+
+export type Verdict = 'likely-accurate' | 'mixed' | 'likely-inaccurate';
+
+export interface BatchReportRow {
+  index: number;
+  jobId: string;
+  status: JobStatus;
+  contentText: string;
+  accuracyScore?: number;
+  verdict?: Verdict;
+  agreementScore?: number;
+  disagreementScore?: number;
+  neutralScore?: number;
+  summary?: string;
+  topSources: { url: string; title: string; relevance: Source['relevance']; outlet?: string }[];
+  analysisId?: string;
+  error?: string;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
   contentText: string;
+  // Article URL for jobs that fetch their content
+  url?: string;
+  dateRange?: DateRange;
+  // Skip the cache when the job runs
+  forceRefresh?: boolean;
+  // Logged-in user who submitted the job; the result goes into their history
+  userId?: string;
+  // Last pipeline stage reported while running
+  stage?: AnalysisProgressEvent['stage'];
+  analysisId?: string;
+  error?: string;
+  attempts: number;
+  // Set for jobs submitted through POST /batch
+  batchId?: string;
+  batchIndex?: number;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+/**
+ * Stage events emitted while an analysis runs (streamed by POST /analyze/stream)
+ */
+export type AnalysisProgressEvent =
+  | { stage: 'fetching'; url: string }
+  | { stage: 'article_fetched'; title?: string; characters: number }
+  | { stage: 'cached' }
+  | { stage: 'claims_extracted'; claims: string[] }
+  | { stage: 'searching'; claimIndex: number; claim: string }
+  | { stage: 'sources_found'; claimIndex: number; count: number }
+  | { stage: 'evidence_retrieved'; claimIndex: number; pages: number }
+  | { stage: 'batch_categorized'; claimIndex: number; batch: number; totalBatches: number; sources: Source[] }
+  | { stage: 'claim_scored'; claimIndex: number; accuracyScore: number }
+  | { stage: 'summary_ready'; summary: string };
+
+export type ProgressCallback = (event: AnalysisProgressEvent) => void;
+
+// A summary translated on demand, returned by GET /analyses/:id/translations/:lang
+export interface SummaryTranslation {
+  analysisId: string;
+  language: string;
+  summary: string;
+  // False when the translation was made for this request
+  cached: boolean;
 }
 
 export interface TavilySearchResult {
@@ -0,0 +1,83 @@
+/**
+ * Parse CSV text into rows of fields
+ * Supports quoted fields with embedded commas, newlines and doubled quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter(fields => fields.some(value => value.trim() !== ''))
+}
+
+/**
+ * Parse CSV text with a header row into objects keyed by lowercased header names
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) return []
+
+  const keys = header.map(name => name.trim().toLowerCase())
+  return rows.map(fields => {
+    const record: Record<string, string> = {}
+    keys.forEach((key, index) => {
+      record[key] = (fields[index] || '').trim()
+    })
+    return record
+  })
+}
+
+/**
+ * Serialize rows to CSV, quoting fields that need it
+ * Text starting with =, +, - or @ is prefixed with ' so spreadsheets do not run it as a formula
+ */
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  const escape = (value: string | number | null | undefined): string => {
+    if (value === null || value === undefined) return ''
+    let text = String(value)
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n'
+}
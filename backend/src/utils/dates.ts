@@ -0,0 +1,68 @@
+import { DateRange } from '../types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const RELATIVE_UNITS_MS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: DAY_MS,
+  week: 7 * DAY_MS,
+  month: 30 * DAY_MS,
+  year: 365 * DAY_MS,
+}
+
+/**
+ * Normalize a publish date from a search provider to ISO 8601
+ * Accepts ISO and RFC dates, "Jan 5, 2024", Unix timestamps and relative dates such as
+ * "3 days ago" or "yesterday" (Serper), which are resolved against now
+ * Returns undefined for missing, unparseable and future dates
+ */
+export function normalizePublishedDate(value: unknown, now: Date = new Date()): string | undefined {
+  let time = NaN
+
+  if (typeof value === 'number') {
+    // Unix timestamps in seconds or milliseconds
+    time = value < 1e12 ? value * 1000 : value
+  } else if (typeof value === 'string' && value.trim()) {
+    const text = value.trim().toLowerCase()
+    const relative = text.match(/^(\d+|an?)\s+(second|minute|hour|day|week|month|year)s?\s+ago$/)
+
+    if (relative) {
+      const amount = /^\d+$/.test(relative[1]) ? parseInt(relative[1], 10) : 1
+      time = now.getTime() - amount * RELATIVE_UNITS_MS[relative[2]]
+    } else if (text === 'today' || text === 'just now') {
+      time = now.getTime()
+    } else if (text === 'yesterday') {
+      time = now.getTime() - DAY_MS
+    } else {
+      time = Date.parse(value.trim())
+    }
+  }
+
+  // Dates more than a day ahead are parsing mistakes, not publications
+  if (isNaN(time) || time > now.getTime() + DAY_MS) return undefined
+  return new Date(time).toISOString()
+}
+
+/**
+ * Whether a value is a calendar date written as YYYY-MM-DD
+ */
+export function isIsoDay(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+/**
+ * Whether a publish date falls inside a date range (both ends inclusive, whole days in UTC)
+ * Undated sources are kept, since their date is unknown rather than out of range
+ */
+export function isWithinDateRange(publishedDate: string | undefined, range: DateRange): boolean {
+  if (!publishedDate) return true
+
+  const day = publishedDate.substring(0, 10)
+  if (range.from && day < range.from) return false
+  if (range.to && day > range.to) return false
+  return true
+}
@@ -0,0 +1,188 @@
+export interface ExtractedArticle {
+  title?: string
+  author?: string
+  publishedDate?: string
+  siteName?: string
+  text: string
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  laquo: '«',
+  raquo: '»',
+  copy: '©',
+  reg: '®',
+  middot: '·',
+}
+
+/**
+ * Decode HTML entities (named ones listed above plus all numeric references)
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Strip tags from an HTML fragment and collapse whitespace
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+  ).replace(/\s+/g, ' ').trim()
+}
+
+function getAttribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]).trim() : undefined
+}
+
+/**
+ * Content of the first <meta> tag whose name or property matches one of the keys
+ */
+function getMeta(html: string, keys: string[]): string | undefined {
+  const tags = html.match(/<meta\s[^>]*>/gi) || []
+  for (const key of keys) {
+    for (const tag of tags) {
+      const name = (getAttribute(tag, 'property') || getAttribute(tag, 'name') || getAttribute(tag, 'itemprop') || '').toLowerCase()
+      if (name === key) {
+        const content = getAttribute(tag, 'content')
+        if (content) return content
+      }
+    }
+  }
+  return undefined
+}
+
+/**
+ * Article fields from schema.org JSON-LD blocks
+ */
+function getJsonLd(html: string): { headline?: string; author?: string; datePublished?: string; publisher?: string } {
+  const blocks = html.match(/<script[^>]+type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi) || []
+
+  for (const block of blocks) {
+    const json = block.replace(/^<script[^>]*>/i, '').replace(/<\/script>$/i, '')
+    let data: any
+    try {
+      data = JSON.parse(json)
+    } catch {
+      continue
+    }
+
+    const items: any[] = Array.isArray(data) ? data : data['@graph'] ? data['@graph'] : [data]
+    const article = items.find(item => item && (item.datePublished || item.headline))
+    if (!article) continue
+
+    const authors = Array.isArray(article.author) ? article.author : article.author ? [article.author] : []
+    const author = authors
+      .map((entry: any) => (typeof entry === 'string' ? entry : entry?.name))
+      .filter(Boolean)
+      .join(', ')
+
+    return {
+      headline: typeof article.headline === 'string' ? article.headline : undefined,
+      author: author || undefined,
+      datePublished: typeof article.datePublished === 'string' ? article.datePublished : undefined,
+      publisher: typeof article.publisher?.name === 'string' ? article.publisher.name : undefined,
+    }
+  }
+
+  return {}
+}
+
+/**
+ * Normalize a date string to ISO 8601, or undefined if it cannot be parsed
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const time = Date.parse(value)
+  return isNaN(time) ? undefined : new Date(time).toISOString()
+}
+
+/**
+ * Inner HTML of the element with the most paragraph text
+ * Falls back to the whole document when no candidate is found
+ */
+function findMainContent(html: string): string {
+  const candidates = [
+    ...(html.match(/<article[\s>][\s\S]*?<\/article>/gi) || []),
+    ...(html.match(/<main[\s>][\s\S]*?<\/main>/gi) || []),
+    ...(html.match(/<div[^>]+(?:itemprop\s*=\s*["']articleBody["']|class\s*=\s*["'][^"']*(?:article-body|story-body|post-content|entry-content)[^"']*["'])[^>]*>[\s\S]*?<\/div>/gi) || []),
+  ]
+
+  const paragraphLength = (fragment: string) =>
+    (fragment.match(/<p[\s>][\s\S]*?<\/p>/gi) || []).reduce((total, p) => total + htmlToText(p).length, 0)
+
+  let best = ''
+  let bestLength = 0
+  for (const candidate of candidates) {
+    const length = paragraphLength(candidate)
+    if (length > bestLength) {
+      best = candidate
+      bestLength = length
+    }
+  }
+
+  return bestLength > 0 ? best : html
+}
+
+/**
+ * Extract the readable article from an HTML page
+ * A lightweight readability pass: drop boilerplate elements, pick the element with the
+ * most paragraph text and keep its paragraphs, headings and list items
+ */
+export function extractArticle(html: string): ExtractedArticle {
+  const jsonLd = getJsonLd(html)
+
+  const titleTag = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)
+  const h1 = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)
+  const title = getMeta(html, ['og:title', 'twitter:title']) || jsonLd.headline ||
+    (h1 && htmlToText(h1[1])) || (titleTag && htmlToText(titleTag[1])) || undefined
+
+  const author = getMeta(html, ['author', 'article:author', 'byl', 'parsely-author', 'dc.creator']) || jsonLd.author
+  const publishedDate = toIsoDate(
+    getMeta(html, ['article:published_time', 'datepublished', 'date', 'pubdate', 'publishdate', 'dc.date', 'parsely-pub-date']) ||
+    jsonLd.datePublished ||
+    html.match(/<time[^>]+datetime\s*=\s*["']([^"']+)["']/i)?.[1]
+  )
+  const siteName = getMeta(html, ['og:site_name', 'application-name']) || jsonLd.publisher
+
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|noscript|svg|template|iframe|form|nav|header|footer|aside|figure)[\s>][\s\S]*?<\/\1>/gi, ' ')
+
+  const main = findMainContent(cleaned)
+  const blocks = (main.match(/<(p|h[1-6]|li|blockquote)[\s>][\s\S]*?<\/\1>/gi) || [])
+    .map(block => htmlToText(block))
+    // Skip short fragments such as bylines, share buttons and captions
+    .filter(text => text.length >= 40 || /[.!?]$/.test(text))
+
+  const text = blocks.length > 0 ? blocks.join('\n\n') : htmlToText(main)
+
+  return {
+    title: title || undefined,
+    author: author || undefined,
+    publishedDate,
+    siteName: siteName || undefined,
+    text,
+  }
+}
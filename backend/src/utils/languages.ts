@@ -0,0 +1,81 @@
+import fs from 'fs'
+import path from 'path'
+
+// Shared with the frontend, which builds its locales and language selector from the same file
+export const LANGUAGE_REGISTRY_PATH = path.resolve(__dirname, '../../../shared/languages.json')
+
+export type TextDirection = 'ltr' | 'rtl'
+
+export interface LanguageInfo {
+  code: string // ISO 639-1 code (e.g., 'ar')
+  name: string // English name, used in prompts
+  nativeName: string
+  flag: string
+  direction: TextDirection
+  searchRegion: string | null // ISO 3166-1 alpha-2 country searched from
+  locale: boolean // the interface has a locale file for it
+  translation: boolean // summaries can be translated into it
+}
+
+/**
+ * Check the shape of the language registry
+ */
+export function validateLanguages(raw: unknown): { defaultLanguage: string; languages: LanguageInfo[] } {
+  const registry = (raw || {}) as Record<string, unknown>
+  if (!Array.isArray(registry.languages)) {
+    throw new Error('Language registry must have a "languages" array')
+  }
+
+  const seen = new Set<string>()
+  const languages = registry.languages.map((item, index): LanguageInfo => {
+    const entry = (item || {}) as Record<string, unknown>
+    const position = `Language ${index + 1}`
+
+    if (typeof entry.code !== 'string' || !/^[a-z]{2,3}$/.test(entry.code)) {
+      throw new Error(`${position}: "code" must be a lowercase ISO 639-1 code`)
+    }
+    if (seen.has(entry.code)) {
+      throw new Error(`${position}: duplicate code "${entry.code}"`)
+    }
+    seen.add(entry.code)
+
+    for (const field of ['name', 'nativeName', 'flag']) {
+      if (typeof entry[field] !== 'string' || entry[field] === '') {
+        throw new Error(`${position} (${entry.code}): "${field}" is required`)
+      }
+    }
+    if (entry.direction !== 'ltr' && entry.direction !== 'rtl') {
+      throw new Error(`${position} (${entry.code}): "direction" must be ltr or rtl`)
+    }
+    if (entry.searchRegion !== null && (typeof entry.searchRegion !== 'string' || !/^[a-z]{2}$/.test(entry.searchRegion))) {
+      throw new Error(`${position} (${entry.code}): "searchRegion" must be a lowercase country code or null`)
+    }
+
+    return {
+      code: entry.code,
+      name: entry.name as string,
+      nativeName: entry.nativeName as string,
+      flag: entry.flag as string,
+      direction: entry.direction,
+      searchRegion: entry.searchRegion as string | null,
+      locale: entry.locale === true,
+      translation: entry.translation === true,
+    }
+  })
+
+  const defaultLanguage = registry.defaultLanguage
+  if (typeof defaultLanguage !== 'string' || !languages.some(language => language.code === defaultLanguage && language.locale)) {
+    throw new Error('"defaultLanguage" must be a language with a locale')
+  }
+
+  return { defaultLanguage, languages }
+}
+
+const registry = validateLanguages(JSON.parse(fs.readFileSync(LANGUAGE_REGISTRY_PATH, 'utf-8')))
+
+export const DEFAULT_LANGUAGE = registry.defaultLanguage
+export const LANGUAGES: LanguageInfo[] = registry.languages
+
+export function getLanguage(code: string): LanguageInfo | undefined {
+  return LANGUAGES.find(language => language.code === code.toLowerCase())
+}
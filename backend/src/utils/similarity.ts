@@ -0,0 +1,108 @@
+/**
+ * Lexical similarity of short texts, for matching paraphrases in the cache
+ *
+ * Texts are compared as vectors of character trigrams, which tolerates reordering,
+ * punctuation and word forms ("8 glasses of water" and "8-glasses-of-water"). Trigrams
+ * do not understand meaning: swapping one word for its opposite ("increases" and
+ * "decreases") keeps most trigrams. So two texts only count as the same claim when they
+ * also contain the same numbers, are both negated or both not, and use the same claim
+ * terms (see termsAgree).
+ */
+
+export interface TextFingerprint {
+  trigrams: Map<string, number>
+  // Euclidean length of the trigram vector
+  norm: number
+  numbers: string
+  negated: boolean
+  // Content words, without function words and numbers
+  terms: string[]
+}
+
+// Negations in English and the other languages most often checked
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'without',
+  'nicht', 'kein', 'keine', 'nie', 'pas', 'jamais', 'non', 'nunca', 'nao', 'não', 'inte', 'aldrig',
+])
+
+// English function words, left out of claim terms
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'in', 'on', 'at', 'to', 'for', 'from', 'by', 'with', 'as',
+  'is', 'are', 'was', 'were', 'be', 'been', 'being', 'has', 'have', 'had', 'do', 'does', 'did',
+  'it', 'its', 'this', 'that', 'these', 'those', 'there', 'their', 'they', 'he', 'she', 'his', 'her',
+  'will', 'would', 'can', 'could', 'should', 'may', 'might', 'than', 'then', 'so', 'very', 'just',
+])
+
+function words(text: string): string[] {
+  return text.toLowerCase().replace(/n't\b/g, ' not').split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+export function fingerprint(text: string): TextFingerprint {
+  const tokens = words(text)
+  const joined = ` ${tokens.join(' ')} `
+
+  const trigrams = new Map<string, number>()
+  for (let i = 0; i + 3 <= joined.length; i++) {
+    const trigram = joined.substring(i, i + 3)
+    trigrams.set(trigram, (trigrams.get(trigram) || 0) + 1)
+  }
+
+  let squares = 0
+  for (const count of trigrams.values()) squares += count * count
+
+  return {
+    trigrams,
+    norm: Math.sqrt(squares),
+    numbers: [...new Set(text.match(/\d+(?:[.,]\d+)*/g) || [])].sort().join(' '),
+    negated: tokens.some(token => NEGATIONS.has(token)),
+    terms: [...new Set(tokens.filter(token => !FUNCTION_WORDS.has(token) && !NEGATIONS.has(token) && !/^\d/.test(token)))],
+  }
+}
+
+/**
+ * Two words are forms of the same term when they share a stem of at least 4 letters
+ * followed by at most 3 more in each ("glass" and "glasses", "increases" and "increased")
+ * Longer endings such as -less and -ness are left out, so "harmful" and "harmless" differ
+ */
+function sameTerm(a: string, b: string): boolean {
+  if (a === b) return true
+  let stem = 0
+  while (stem < a.length && stem < b.length && a[stem] === b[stem]) stem++
+  return stem >= 4 && a.length - stem <= 3 && b.length - stem <= 3
+}
+
+/**
+ * Whether every claim term of each text appears, in some form, in the other
+ * A word swapped for another, such as "increases" for "decreases" or "faked" for
+ * "filmed", makes the terms disagree however similar the rest of the texts is
+ */
+export function termsAgree(a: TextFingerprint, b: TextFingerprint): boolean {
+  const covered = (from: string[], to: string[]) => from.every(term => to.some(other => sameTerm(term, other)))
+  return covered(a.terms, b.terms) && covered(b.terms, a.terms)
+}
+
+/**
+ * Whether two lists of extracted claims state the same claims, ignoring case,
+ * punctuation and order
+ */
+export function sameClaimSet(a: string[], b: string[]): boolean {
+  const normalize = (claims: string[]) => [...new Set(claims.map(claim => words(claim).join(' ')))].sort()
+  const left = normalize(a)
+  const right = normalize(b)
+  return left.length > 0 && left.length === right.length && left.every((claim, index) => claim === right[index])
+}
+
+/**
+ * Cosine similarity of two fingerprints from 0 to 1
+ * Texts with different numbers or opposite negation score 0
+ */
+export function similarity(a: TextFingerprint, b: TextFingerprint): number {
+  if (a.numbers !== b.numbers || a.negated !== b.negated || a.norm === 0 || b.norm === 0) return 0
+
+  const [smaller, larger] = a.trigrams.size <= b.trigrams.size ? [a.trigrams, b.trigrams] : [b.trigrams, a.trigrams]
+  let dot = 0
+  for (const [trigram, count] of smaller) {
+    dot += count * (larger.get(trigram) || 0)
+  }
+  return dot / (a.norm * b.norm)
+}
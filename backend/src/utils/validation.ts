@@ -0,0 +1,146 @@
+import { DateRange, HistoryEntry } from '../types'
+import { isIsoDay } from './dates'
+
+/**
+ * Validate content submitted for analysis
+ * Returns the trimmed text, or an error message for a 400 response
+ */
+export function validateContent(contentText: unknown): { content: string } | { error: string } {
+  if (!contentText || typeof contentText !== 'string') {
+    return { error: 'Content text is required' }
+  }
+
+  const trimmed = contentText.trim()
+  if (trimmed.length < 10) {
+    return { error: 'Content must be at least 10 characters' }
+  }
+
+  if (trimmed.length > 2000) {
+    return { error: 'Content must be less than 2000 characters' }
+  }
+
+  return { content: trimmed }
+}
+
+/**
+ * Validate an article URL submitted for analysis
+ * Only the format is checked here, the fetcher decides whether the host may be reached
+ */
+export function validateUrl(url: unknown): { url: string } | { error: string } {
+  if (!url || typeof url !== 'string') {
+    return { error: 'URL is required' }
+  }
+
+  const trimmed = url.trim()
+  if (trimmed.length > 2048) {
+    return { error: 'URL must be less than 2048 characters' }
+  }
+
+  let parsed: URL
+  try {
+    parsed = new URL(trimmed)
+  } catch {
+    return { error: 'URL is not valid' }
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return { error: 'URL must start with http:// or https://' }
+  }
+
+  return { url: parsed.toString() }
+}
+
+/**
+ * Validate an optional date range limiting evidence to sources published inside it
+ * Both ends are YYYY-MM-DD dates and either may be left open
+ */
+export function validateDateRange(value: unknown): { dateRange?: DateRange } | { error: string } {
+  if (value === undefined || value === null) {
+    return {}
+  }
+
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'dateRange must be an object with from and/or to dates' }
+  }
+
+  const { from, to } = value as Record<string, unknown>
+  for (const [name, date] of [['from', from], ['to', to]] as const) {
+    if (date !== undefined && date !== null && !isIsoDay(date)) {
+      return { error: `dateRange.${name} must be a date written as YYYY-MM-DD` }
+    }
+  }
+
+  if (!from && !to) {
+    return { error: 'dateRange needs a from or to date' }
+  }
+
+  if (from && to && (from as string) > (to as string)) {
+    return { error: 'dateRange.from must not be after dateRange.to' }
+  }
+
+  return { dateRange: { from: (from as string) || undefined, to: (to as string) || undefined } }
+}
+
+/**
+ * Validate the email and password of a registration or login
+ * Emails are compared in lower case
+ */
+export function validateCredentials(body: unknown): { email: string; password: string } | { error: string } {
+  const { email, password } = (body || {}) as { email?: unknown; password?: unknown }
+
+  if (typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim()) || email.trim().length > 254) {
+    return { error: 'A valid email address is required' }
+  }
+
+  if (typeof password !== 'string' || password.length < 8) {
+    return { error: 'Password must be at least 8 characters' }
+  }
+
+  if (password.length > 200) {
+    return { error: 'Password must be less than 200 characters' }
+  }
+
+  return { email: email.trim().toLowerCase(), password }
+}
+
+/**
+ * Validate history entries uploaded from the browser's local history
+ * Dates are stored as ISO timestamps so entries sort together with server ones
+ */
+export function validateHistoryEntries(value: unknown, maxEntries: number): { entries: HistoryEntry[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'Expected { "items": [...] }' }
+  }
+
+  if (value.length > maxEntries) {
+    return { error: `At most ${maxEntries} history items can be imported at once` }
+  }
+
+  const entries: HistoryEntry[] = []
+  for (let i = 0; i < value.length; i++) {
+    const item = value[i] as Partial<HistoryEntry> | null
+    const analyzedAt = typeof item?.analyzedAt === 'string' ? Date.parse(item.analyzedAt) : NaN
+
+    if (typeof item?.analysisId !== 'string' || !item.analysisId || item.analysisId.length > 100) {
+      return { error: `Item ${i + 1}: analysisId is required` }
+    }
+    if (typeof item.contentText !== 'string' || !item.contentText.trim() || item.contentText.length > 50000) {
+      return { error: `Item ${i + 1}: contentText is required` }
+    }
+    if (typeof item.accuracyScore !== 'number' || item.accuracyScore < 0 || item.accuracyScore > 100) {
+      return { error: `Item ${i + 1}: accuracyScore must be a number from 0 to 100` }
+    }
+    if (isNaN(analyzedAt)) {
+      return { error: `Item ${i + 1}: analyzedAt must be a date` }
+    }
+
+    entries.push({
+      analysisId: item.analysisId,
+      contentText: item.contentText,
+      accuracyScore: Math.round(item.accuracyScore),
+      analyzedAt: new Date(analyzedAt).toISOString(),
+    })
+  }
+
+  return { entries }
+}
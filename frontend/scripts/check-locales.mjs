@@ -0,0 +1,92 @@
+// Checks that the locale files match the shared language registry and each other:
+// every interface language has a locale file, and every locale file has exactly the keys
+// of the default language's file, with the same {{placeholders}}
+import fs from 'fs'
+import path from 'path'
+import { fileURLToPath } from 'url'
+
+const frontendDir = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const localesDir = path.join(frontendDir, 'src/locales')
+const registryPath = path.resolve(frontendDir, '../shared/languages.json')
+
+const registry = JSON.parse(fs.readFileSync(registryPath, 'utf-8'))
+const errors = []
+
+function flatten(object, prefix = '') {
+  const keys = {}
+  for (const [key, value] of Object.entries(object)) {
+    if (value && typeof value === 'object') {
+      Object.assign(keys, flatten(value, `${prefix}${key}.`))
+    } else {
+      keys[`${prefix}${key}`] = String(value)
+    }
+  }
+  return keys
+}
+
+function placeholders(text) {
+  return [...text.matchAll(/\{\{\s*(\w+)\s*\}\}/g)].map(match => match[1]).sort().join(',')
+}
+
+const uiCodes = registry.languages.filter(language => language.locale).map(language => language.code)
+const codes = new Set(registry.languages.map(language => language.code))
+if (codes.size !== registry.languages.length) {
+  errors.push('shared/languages.json: language codes must be unique')
+}
+for (const language of registry.languages) {
+  if (language.direction !== 'ltr' && language.direction !== 'rtl') {
+    errors.push(`shared/languages.json: "${language.code}" direction must be ltr or rtl`)
+  }
+}
+if (!uiCodes.includes(registry.defaultLanguage)) {
+  errors.push(`shared/languages.json: defaultLanguage "${registry.defaultLanguage}" must have a locale`)
+}
+
+const localeFiles = fs.readdirSync(localesDir).filter(file => file.endsWith('.json'))
+for (const file of localeFiles) {
+  if (!uiCodes.includes(path.basename(file, '.json'))) {
+    errors.push(`src/locales/${file}: no language with "locale": true in shared/languages.json`)
+  }
+}
+
+const load = code => {
+  const file = path.join(localesDir, `${code}.json`)
+  if (!fs.existsSync(file)) {
+    errors.push(`src/locales/${code}.json: missing for interface language "${code}"`)
+    return null
+  }
+  try {
+    return flatten(JSON.parse(fs.readFileSync(file, 'utf-8')))
+  } catch (error) {
+    errors.push(`src/locales/${code}.json: ${error.message}`)
+    return null
+  }
+}
+
+const reference = load(registry.defaultLanguage)
+if (reference) {
+  for (const code of uiCodes.filter(code => code !== registry.defaultLanguage)) {
+    const keys = load(code)
+    if (!keys) continue
+
+    for (const key of Object.keys(reference)) {
+      if (!(key in keys)) {
+        errors.push(`src/locales/${code}.json: missing "${key}"`)
+      } else if (placeholders(keys[key]) !== placeholders(reference[key])) {
+        errors.push(`src/locales/${code}.json: "${key}" must use the placeholders of ${registry.defaultLanguage}.json`)
+      }
+    }
+    for (const key of Object.keys(keys)) {
+      if (!(key in reference)) {
+        errors.push(`src/locales/${code}.json: unknown key "${key}"`)
+      }
+    }
+  }
+}
+
+if (errors.length > 0) {
+  console.error(`Locale check failed:\n${errors.map(error => `  ${error}`).join('\n')}`)
+  process.exit(1)
+}
+
+console.log(`Locales OK: ${uiCodes.length} languages, ${Object.keys(reference).length} keys each`)
@@ -6,41 +6,95 @@ import DarkModeToggle from './components/DarkModeToggle'
 import LanguageSelector from './components/LanguageSelector'
 import HistorySidebar from './components/HistorySidebar'
 import { useDarkMode } from './hooks/useDarkMode'
-import { useHistory } from './hooks/useHistory'
-import { AnalysisResult } from './types'
-import { analyzePost } from './api/client'
+import { HistoryItem, useHistory } from './hooks/useHistory'
+import { useAccount } from './hooks/useAccount'
+import { AnalysisRequest, AnalysisResult } from './types'
+import { isRtl } from './languages'
+import { analyzePost, getAnalysis } from './api/client'
+import { getStoredResult, saveResult } from './storage/resultStore'
 
 function App() {
   const { t, i18n } = useTranslation()
   const [result, setResult] = useState<AnalysisResult | null>(null)
   const [isHistoryOpen, setIsHistoryOpen] = useState(false)
   const [isAnalyzing, setIsAnalyzing] = useState(false)
+  // History item being viewed, which can be re-checked; null for fresh analyses
+  const [openedItem, setOpenedItem] = useState<HistoryItem | null>(null)
+  const [isStoredMissing, setIsStoredMissing] = useState(false)
+  const [recheckError, setRecheckError] = useState<string | null>(null)
   const { isDark, toggleDarkMode } = useDarkMode()
-  const { history, addToHistory, clearHistory, removeItem } = useHistory()
+  const { user, login, register, logout } = useAccount()
+  const { history, total, hasMore, loadMore, addToHistory, clearHistory, removeItem } = useHistory(user)
 
-  // Set RTL direction for Arabic, Farsi, and Urdu
+  // Set RTL direction for right-to-left languages in the registry
   useEffect(() => {
-    const rtlLanguages = ['ar', 'fa', 'ur']
-    document.documentElement.dir = rtlLanguages.includes(i18n.language) ? 'rtl' : 'ltr'
+    document.documentElement.dir = isRtl(i18n.language) ? 'rtl' : 'ltr'
     document.documentElement.lang = i18n.language
   }, [i18n.language])
 
   const handleResult = (newResult: AnalysisResult) => {
     setResult(newResult)
+    setOpenedItem(null)
+    setIsStoredMissing(false)
+    setRecheckError(null)
     addToHistory(newResult)
   }
 
   const handleAnalysisStart = () => {
     setResult(null)
+    setOpenedItem(null)
+    setIsStoredMissing(false)
+    setRecheckError(null)
   }
 
-  const handleHistorySelect = async (contentText: string) => {
-    setIsAnalyzing(true)
+  // Show the stored result of a history item: from this browser first, then from the backend
+  const handleHistorySelect = async (item: HistoryItem) => {
+    setResult(null)
+    setOpenedItem(item)
+    setIsStoredMissing(false)
+    setRecheckError(null)
+
+    let stored: AnalysisResult | null = null
     try {
-      const analysisResult = await analyzePost(contentText)
-      handleResult(analysisResult)
+      stored = await getStoredResult(item.id)
     } catch (error) {
-      console.error('Error re-analyzing from history:', error)
+      console.error('Error reading stored result:', error)
+    }
+
+    if (!stored) {
+      try {
+        stored = await getAnalysis(item.id)
+        if (stored) await saveResult(stored)
+      } catch (error) {
+        console.error('Error loading analysis:', error)
+      }
+    }
+
+    if (stored) setResult(stored)
+    else setIsStoredMissing(true)
+  }
+
+  // Run a history item's analysis again, bypassing the cache, which costs provider calls
+  // Articles are fetched again from their URL, and the original date range is kept
+  const handleRecheck = async () => {
+    if (!openedItem) return
+
+    const previous = result
+    const request: AnalysisRequest = previous?.origin
+      ? { url: previous.origin.url }
+      : { contentText: openedItem.contentText }
+    if (previous?.dateRange) request.dateRange = previous.dateRange
+    request.forceRefresh = true
+
+    setIsAnalyzing(true)
+    setResult(null)
+    setRecheckError(null)
+    try {
+      handleResult(await analyzePost(request))
+    } catch (err) {
+      // Keep showing the stored result, with the error
+      setResult(previous)
+      setRecheckError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
       setIsAnalyzing(false)
     }
@@ -63,9 +117,9 @@ function App() {
                 <svg className="w-5 h-5 sm:w-6 sm:h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                {history.length > 0 && (
+                {total > 0 && (
                   <span className="text-xs font-semibold text-gray-700 dark:text-gray-300">
-                    {history.length}
+                    {total}
                   </span>
                 )}
               </div>
@@ -92,11 +146,17 @@ function App() {
 
       <HistorySidebar
         history={history}
+        hasMore={hasMore}
+        user={user}
         isOpen={isHistoryOpen}
         onClose={() => setIsHistoryOpen(false)}
         onSelect={handleHistorySelect}
         onClear={clearHistory}
         onRemove={removeItem}
+        onLoadMore={loadMore}
+        onLogin={login}
+        onRegister={register}
+        onLogout={logout}
       />
 
       <div className="container mx-auto px-4 sm:px-6 lg:px-8 py-6 sm:py-8">
@@ -122,6 +182,28 @@ function App() {
             </div>
           )}
 
+          {openedItem && !isAnalyzing && (result || isStoredMissing) && (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-4 bg-white dark:bg-gray-800 rounded-lg shadow animate-fade-in">
+              <p className="text-sm text-gray-600 dark:text-gray-300">
+                {isStoredMissing
+                  ? t('history.notStored')
+                  : t('history.storedResult', { date: new Date(result!.analyzedAt).toLocaleString(i18n.language) })}
+              </p>
+              <button
+                onClick={handleRecheck}
+                className="shrink-0 px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+              >
+                {t('history.recheck')}
+              </button>
+            </div>
+          )}
+
+          {recheckError && !isAnalyzing && (
+            <div className="p-3 sm:p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg animate-fade-in">
+              <p className="text-sm text-red-800 dark:text-red-300">{recheckError}</p>
+            </div>
+          )}
+
           {result && !isAnalyzing && (
             <div className="animate-scale-in">
               <ResultsDashboard result={result} />
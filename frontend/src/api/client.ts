@@ -1,14 +1,161 @@
-import { AnalysisResult, AnalysisRequest } from '../types'
+import {
+  AnalysisResult,
+  AnalysisRequest,
+  AnalysisProgressEvent,
+  HistoryEntry,
+  HistoryPage,
+  Session,
+  SummaryTranslation,
+  User,
+} from '../types'
 
 const API_URL = import.meta.env.VITE_API_URL || '/api'
+// Sent with every request when the backend requires API keys
+const API_KEY = import.meta.env.VITE_API_KEY
 
-export async function analyzePost(contentText: string): Promise<AnalysisResult> {
+// Session token of the logged-in user, kept across reloads
+const SESSION_KEY = 'truthmeter_session'
+
+function authHeaders(): Record<string, string> {
+  const headers: Record<string, string> = API_KEY ? { 'X-API-Key': API_KEY } : {}
+  const sessionToken = localStorage.getItem(SESSION_KEY)
+  if (sessionToken) headers['X-Session-Token'] = sessionToken
+  return headers
+}
+
+/**
+ * Send a JSON request and return the parsed response, or throw with the server's message
+ */
+async function requestJson<T>(path: string, method: string = 'GET', body?: unknown): Promise<T> {
+  const response = await fetch(`${API_URL}${path}`, {
+    method,
+    headers: {
+      ...authHeaders(),
+      ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'An error occurred' }))
+    throw new Error(error.message || `HTTP error! status: ${response.status}`)
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+export async function analyzePost(request: AnalysisRequest): Promise<AnalysisResult> {
   const response = await fetch(`${API_URL}/analyze`, {
     method: 'POST',
     headers: {
+      ...authHeaders(),
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ contentText } as AnalysisRequest),
+    body: JSON.stringify(request),
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'An error occurred' }))
+    throw new Error(error.message || `HTTP error! status: ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Analyze content or an article URL through the streaming endpoint, calling onProgress for every stage event
+ * EventSource only supports GET, so the Server-Sent Events stream is read with fetch
+ */
+export async function analyzePostStream(
+  request: AnalysisRequest,
+  onProgress: (event: AnalysisProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> {
+  const response = await fetch(`${API_URL}/analyze/stream`, {
+    method: 'POST',
+    headers: {
+      ...authHeaders(),
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    },
+    body: JSON.stringify(request),
+    signal,
+  })
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'An error occurred' }))
+    throw new Error(error.message || `HTTP error! status: ${response.status}`)
+  }
+
+  // Proxies or older servers that do not stream: fall back to a plain JSON response
+  if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return response.json()
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const block = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      const dataLines: string[] = []
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim()
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart())
+      }
+      if (dataLines.length === 0) continue
+
+      const data = JSON.parse(dataLines.join('\n'))
+      if (event === 'progress') {
+        onProgress(data as AnalysisProgressEvent)
+      } else if (event === 'result') {
+        await reader.cancel()
+        return data as AnalysisResult
+      } else if (event === 'error') {
+        await reader.cancel()
+        throw new Error(data.message || 'An error occurred')
+      }
+    }
+  }
+
+  throw new Error('Connection closed before the analysis finished')
+}
+
+/**
+ * A stored analysis by ID, or null when the backend no longer has it
+ */
+export async function getAnalysis(analysisId: string): Promise<AnalysisResult | null> {
+  const response = await fetch(`${API_URL}/analyses/${encodeURIComponent(analysisId)}`, {
+    headers: authHeaders(),
+  })
+
+  if (response.status === 404) return null
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'An error occurred' }))
+    throw new Error(error.message || `HTTP error! status: ${response.status}`)
+  }
+
+  return response.json()
+}
+
+/**
+ * Summary of an analysis in another language, translated by the backend the first time it is requested
+ */
+export async function getSummaryTranslation(analysisId: string, language: string): Promise<SummaryTranslation> {
+  const response = await fetch(`${API_URL}/analyses/${encodeURIComponent(analysisId)}/translations/${encodeURIComponent(language)}`, {
+    headers: authHeaders(),
   })
 
   if (!response.ok) {
@@ -18,3 +165,70 @@ export async function analyzePost(contentText: string): Promise<AnalysisResult>
 
   return response.json()
 }
+
+/**
+ * Create an account and log in to it
+ */
+export async function register(email: string, password: string): Promise<User> {
+  const session = await requestJson<Session>('/auth/register', 'POST', { email, password })
+  localStorage.setItem(SESSION_KEY, session.token)
+  return session.user
+}
+
+export async function login(email: string, password: string): Promise<User> {
+  const session = await requestJson<Session>('/auth/login', 'POST', { email, password })
+  localStorage.setItem(SESSION_KEY, session.token)
+  return session.user
+}
+
+/**
+ * End the session; the token is forgotten even when the server cannot be reached
+ */
+export async function logout(): Promise<void> {
+  try {
+    await requestJson<void>('/auth/logout', 'POST')
+  } finally {
+    localStorage.removeItem(SESSION_KEY)
+  }
+}
+
+/**
+ * The user of the stored session, or null when logged out or the session has expired
+ */
+export async function getCurrentUser(): Promise<User | null> {
+  if (!localStorage.getItem(SESSION_KEY)) return null
+
+  const response = await fetch(`${API_URL}/auth/me`, { headers: authHeaders() })
+  if (response.status === 401) {
+    localStorage.removeItem(SESSION_KEY)
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`)
+  }
+
+  const { user } = await response.json()
+  return user
+}
+
+/**
+ * A page of the logged-in user's history, newest first
+ */
+export async function getHistory(limit: number, offset: number): Promise<HistoryPage> {
+  return requestJson<HistoryPage>(`/history?limit=${limit}&offset=${offset}`)
+}
+
+/**
+ * Merge history kept in this browser into the logged-in user's account
+ */
+export async function importHistory(items: HistoryEntry[]): Promise<{ imported: number; total: number }> {
+  return requestJson('/history/import', 'POST', { items })
+}
+
+export async function deleteHistoryItem(analysisId: string): Promise<void> {
+  return requestJson<void>(`/history/${encodeURIComponent(analysisId)}`, 'DELETE')
+}
+
+export async function clearServerHistory(): Promise<void> {
+  await requestJson<{ deleted: number }>('/history', 'DELETE')
+}
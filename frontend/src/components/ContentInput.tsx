@@ -1,8 +1,8 @@
 import { useState } from 'react'
 import { useForm } from 'react-hook-form'
 import { useTranslation } from 'react-i18next'
-import { analyzePost } from '../api/client'
-import { AnalysisResult } from '../types'
+import { analyzePostStream } from '../api/client'
+import { AnalysisProgressEvent, AnalysisRequest, AnalysisResult, Source } from '../types'
 
 interface ContentInputProps {
   onResult: (result: AnalysisResult) => void
@@ -11,18 +11,96 @@ interface ContentInputProps {
 
 interface FormData {
   contentText: string
+  // Optional publish date range for evidence (YYYY-MM-DD, empty when open)
+  dateFrom: string
+  dateTo: string
+}
+
+interface ProgressState {
+  stage: AnalysisProgressEvent['stage'] | 'started'
+  claimCount: number
+  sourcesFound: number
+  pagesRead: number
+  batchesDone: number
+  // Total batches per claim, known once the first batch of a claim completes
+  batchTotals: Record<number, number>
+  sources: Source[]
+}
+
+const INITIAL_PROGRESS: ProgressState = {
+  stage: 'started',
+  claimCount: 0,
+  sourcesFound: 0,
+  pagesRead: 0,
+  batchesDone: 0,
+  batchTotals: {},
+  sources: [],
+}
+
+function applyProgress(state: ProgressState, event: AnalysisProgressEvent): ProgressState {
+  switch (event.stage) {
+    case 'claims_extracted':
+      return { ...state, stage: event.stage, claimCount: event.claims.length }
+    case 'sources_found':
+      return { ...state, stage: event.stage, sourcesFound: state.sourcesFound + event.count }
+    case 'evidence_retrieved':
+      return { ...state, stage: event.stage, pagesRead: state.pagesRead + event.pages }
+    case 'batch_categorized':
+      return {
+        ...state,
+        stage: event.stage,
+        batchesDone: state.batchesDone + 1,
+        batchTotals: { ...state.batchTotals, [event.claimIndex]: event.totalBatches },
+        sources: [...state.sources, ...event.sources],
+      }
+    default:
+      return { ...state, stage: event.stage }
+  }
+}
+
+// Rough completion percentage for the progress bar
+function progressPercent(state: ProgressState): number {
+  const totalBatches = Object.values(state.batchTotals).reduce((total, count) => total + count, 0)
+  switch (state.stage) {
+    case 'fetching': return 3
+    case 'started':
+    case 'article_fetched':
+      return 5
+    case 'claims_extracted': return 15
+    case 'searching': return 20
+    case 'sources_found':
+    case 'evidence_retrieved':
+      return 30
+    case 'batch_categorized':
+    case 'claim_scored':
+      return 30 + Math.round(50 * (totalBatches > 0 ? Math.min(1, state.batchesDone / totalBatches) : 0))
+    case 'summary_ready': return 90
+    default: return 100
+  }
+}
+
+// A single http(s) link is fetched and checked as an article
+const URL_PATTERN = /^https?:\/\/\S+$/i
+
+const RELEVANCE_DOT: Record<Source['relevance'], string> = {
+  supporting: 'bg-green-600',
+  contradicting: 'bg-red-600',
+  neutral: 'bg-gray-600',
 }
 
 export default function ContentInput({ onResult, onAnalysisStart }: ContentInputProps) {
   const { t } = useTranslation()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<ProgressState | null>(null)
 
-  const { register, handleSubmit, formState: { errors } } = useForm<FormData>()
+  const { register, handleSubmit, watch, getValues, formState: { errors } } = useForm<FormData>()
+  const isUrl = URL_PATTERN.test((watch('contentText') || '').trim())
 
   const onSubmit = async (data: FormData) => {
     setLoading(true)
     setError(null)
+    setProgress(INITIAL_PROGRESS)
 
     // Clear previous results
     if (onAnalysisStart) {
@@ -30,12 +108,20 @@ export default function ContentInput({ onResult, onAnalysisStart }: ContentInput
     }
 
     try {
-      const result = await analyzePost(data.contentText)
+      const input = data.contentText.trim()
+      const request: AnalysisRequest = URL_PATTERN.test(input) ? { url: input } : { contentText: data.contentText }
+      if (data.dateFrom || data.dateTo) {
+        request.dateRange = { from: data.dateFrom || undefined, to: data.dateTo || undefined }
+      }
+      const result = await analyzePostStream(request, (event) => {
+        setProgress(current => applyProgress(current || INITIAL_PROGRESS, event))
+      })
       onResult(result)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred')
     } finally {
       setLoading(false)
+      setProgress(null)
     }
   }
 
@@ -60,12 +146,81 @@ export default function ContentInput({ onResult, onAnalysisStart }: ContentInput
           placeholder={t('input.placeholder')}
           disabled={loading}
         />
+        {isUrl && !errors.contentText && (
+          <p className="mt-2 text-sm text-blue-700 dark:text-blue-300 animate-fade-in">
+            🔗 {t('input.urlDetected')}
+          </p>
+        )}
         {errors.contentText && (
           <p className="mt-2 text-sm text-red-600 dark:text-red-400 animate-fade-in">
             {errors.contentText.message}
           </p>
         )}
 
+        <fieldset className="mt-3 flex flex-wrap items-center gap-2 text-sm text-gray-700 dark:text-gray-300" disabled={loading}>
+          <legend className="sr-only">{t('input.dateRange.label')}</legend>
+          <span>{t('input.dateRange.label')}</span>
+          <label className="flex items-center gap-1">
+            <span className="text-gray-500 dark:text-gray-400">{t('input.dateRange.from')}</span>
+            <input
+              type="date"
+              {...register('dateFrom')}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            <span className="text-gray-500 dark:text-gray-400">{t('input.dateRange.to')}</span>
+            <input
+              type="date"
+              {...register('dateTo', {
+                validate: (dateTo) => !dateTo || !getValues('dateFrom') || getValues('dateFrom') <= dateTo || t('input.dateRange.invalid'),
+              })}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400"
+            />
+          </label>
+        </fieldset>
+        {errors.dateTo && (
+          <p className="mt-2 text-sm text-red-600 dark:text-red-400 animate-fade-in">
+            {errors.dateTo.message}
+          </p>
+        )}
+
+        {loading && progress && (
+          <div className="mt-4 p-3 sm:p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg animate-fade-in" aria-live="polite">
+            <p className="text-sm font-medium text-blue-800 dark:text-blue-300">
+              {t(`progress.${progress.stage}`, {
+                count: progress.stage === 'claims_extracted'
+                  ? progress.claimCount
+                  : progress.stage === 'evidence_retrieved' ? progress.pagesRead : progress.sourcesFound,
+                done: progress.batchesDone,
+                total: Object.values(progress.batchTotals).reduce((total, count) => total + count, 0),
+              })}
+            </p>
+            <div className="mt-2 h-2 bg-blue-100 dark:bg-blue-900/40 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-blue-600 dark:bg-blue-400 transition-all duration-500"
+                style={{ width: `${progressPercent(progress)}%` }}
+              />
+            </div>
+
+            {progress.sources.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs text-gray-600 dark:text-gray-400 mb-1">
+                  {t('progress.sourcesSoFar', { count: progress.sources.length })}
+                </p>
+                <ul className="space-y-1 max-h-40 overflow-y-auto">
+                  {progress.sources.slice(-8).reverse().map((source, index) => (
+                    <li key={`${source.url}-${index}`} className="flex items-center gap-2 text-xs text-gray-700 dark:text-gray-300 animate-fade-in">
+                      <span className={`w-2 h-2 rounded-full flex-shrink-0 ${RELEVANCE_DOT[source.relevance] || RELEVANCE_DOT.neutral}`} />
+                      <span className="truncate">{source.outlet?.name ? `${source.outlet.name}: ` : ''}{source.title}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
         {error && (
           <div className="mt-4 p-3 sm:p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg animate-fade-in">
             <p className="text-sm text-red-800 dark:text-red-300">{error}</p>
@@ -1,27 +1,45 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, FormEvent } from 'react'
 import { useTranslation } from 'react-i18next'
 import { HistoryItem } from '../hooks/useHistory'
+import { User } from '../types'
 
 interface HistorySidebarProps {
   history: HistoryItem[]
+  hasMore: boolean
+  user: User | null
   isOpen: boolean
   onClose: () => void
-  onSelect: (contentText: string) => void
+  onSelect: (item: HistoryItem) => void
   onClear: () => void
   onRemove: (id: string) => void
+  onLoadMore: () => void
+  onLogin: (email: string, password: string) => Promise<void>
+  onRegister: (email: string, password: string) => Promise<void>
+  onLogout: () => void
 }
 
 export default function HistorySidebar({
   history,
+  hasMore,
+  user,
   isOpen,
   onClose,
   onSelect,
   onClear,
   onRemove,
+  onLoadMore,
+  onLogin,
+  onRegister,
+  onLogout,
 }: HistorySidebarProps) {
   const { t } = useTranslation()
   const [isAnimating, setIsAnimating] = useState(false)
   const [shouldRender, setShouldRender] = useState(isOpen)
+  const [isRegistering, setIsRegistering] = useState(false)
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [accountError, setAccountError] = useState<string | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
 
   useEffect(() => {
     if (isOpen) {
@@ -36,6 +54,20 @@ export default function HistorySidebar({
 
   if (!shouldRender) return null
 
+  const handleAccountSubmit = async (e: FormEvent) => {
+    e.preventDefault()
+    setAccountError(null)
+    setIsSubmitting(true)
+    try {
+      await (isRegistering ? onRegister : onLogin)(email, password)
+      setPassword('')
+    } catch (err) {
+      setAccountError(err instanceof Error ? err.message : 'An error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
   const getScoreColor = (score: number) => {
     if (score >= 70) return 'text-green-600 dark:text-green-400'
     if (score >= 40) return 'text-yellow-600 dark:text-yellow-400'
@@ -84,6 +116,64 @@ export default function HistorySidebar({
             </button>
           </div>
 
+          {/* Account */}
+          {user ? (
+            <div className="flex items-center justify-between gap-2 mb-4 px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-700/50">
+              <span className="text-sm text-gray-700 dark:text-gray-300 truncate">
+                {t('account.signedInAs', { email: user.email })}
+              </span>
+              <button
+                onClick={onLogout}
+                className="text-sm text-blue-600 dark:text-blue-400 hover:underline shrink-0"
+              >
+                {t('account.signOut')}
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleAccountSubmit} className="mb-6 p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2">
+              <p className="text-sm text-gray-600 dark:text-gray-400">{t('account.syncPrompt')}</p>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder={t('account.email')}
+                autoComplete="email"
+                required
+                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={t('account.password')}
+                autoComplete={isRegistering ? 'new-password' : 'current-password'}
+                minLength={8}
+                required
+                className="w-full px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white"
+              />
+              {accountError && (
+                <p className="text-sm text-red-600 dark:text-red-400">{accountError}</p>
+              )}
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full px-4 py-2 text-sm font-semibold text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+              >
+                {isRegistering ? t('account.register') : t('account.signIn')}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setIsRegistering(!isRegistering)
+                  setAccountError(null)
+                }}
+                className="w-full text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {isRegistering ? t('account.switchToSignIn') : t('account.switchToRegister')}
+              </button>
+            </form>
+          )}
+
           {/* Clear All Button */}
           {history.length > 0 && (
             <button
@@ -110,7 +200,7 @@ export default function HistorySidebar({
                   className="group border border-gray-200 dark:border-gray-700 rounded-lg p-3 hover:shadow-md dark:hover:shadow-gray-900/50 transition-all duration-200 cursor-pointer animate-fade-in"
                   style={{ animationDelay: `${index * 0.05}s` }}
                   onClick={() => {
-                    onSelect(item.contentText)
+                    onSelect(item)
                     onClose()
                   }}
                 >
@@ -146,6 +236,15 @@ export default function HistorySidebar({
                   </div>
                 </div>
               ))}
+
+              {hasMore && (
+                <button
+                  onClick={onLoadMore}
+                  className="w-full px-4 py-2 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  {t('history.loadMore')}
+                </button>
+              )}
             </div>
           )}
         </div>
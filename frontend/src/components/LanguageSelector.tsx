@@ -1,39 +1,20 @@
 import { useState, useRef, useEffect } from 'react'
 import { useTranslation } from 'react-i18next'
+import { UI_LANGUAGES, getUiLanguage, isRtl } from '../languages'
 
 export default function LanguageSelector() {
   const { i18n, t } = useTranslation()
   const [isOpen, setIsOpen] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
 
-  const languages = [
-    { code: 'en', label: 'En', flag: '🇬🇧', name: 'English' },
-    { code: 'ar', label: 'Ar', flag: '🇸🇦', name: 'العربية' },
-    { code: 'fr', label: 'Fr', flag: '🇫🇷', name: 'Français' },
-    { code: 'tr', label: 'Tr', flag: '🇹🇷', name: 'Türkçe' },
-    { code: 'fa', label: 'Fa', flag: '🇮🇷', name: 'فارسی' },
-    { code: 'ur', label: 'Ur', flag: '🇵🇰', name: 'اردو' },
-    { code: 'hi', label: 'Hi', flag: '🇮🇳', name: 'हिन्दी' },
-    { code: 'es', label: 'Es', flag: '🇪🇸', name: 'Español' },
-    { code: 'de', label: 'De', flag: '🇩🇪', name: 'Deutsch' },
-    { code: 'pt', label: 'Pt', flag: '🇵🇹', name: 'Português' },
-    { code: 'ja', label: 'Ja', flag: '🇯🇵', name: '日本語' },
-    { code: 'zh', label: 'Zh', flag: '🇨🇳', name: '中文' },
-    { code: 'it', label: 'It', flag: '🇮🇹', name: 'Italiano' },
-    { code: 'sv', label: 'Sv', flag: '🇸🇪', name: 'Svenska' }
-  ]
-
-  const currentLanguage = languages.find(lang => lang.code === i18n.language) || languages[0]
-
-  // RTL languages include Arabic, Farsi/Persian, and Urdu
-  const rtlLanguages = ['ar', 'fa', 'ur']
+  const currentLanguage = getUiLanguage(i18n.language)
 
   const changeLanguage = (langCode: string) => {
     i18n.changeLanguage(langCode)
     localStorage.setItem('language', langCode)
 
     // Set document direction for RTL languages
-    document.documentElement.dir = rtlLanguages.includes(langCode) ? 'rtl' : 'ltr'
+    document.documentElement.dir = isRtl(langCode) ? 'rtl' : 'ltr'
     document.documentElement.lang = langCode
 
     setIsOpen(false)
@@ -65,7 +46,7 @@ export default function LanguageSelector() {
       {isOpen && (
         <div className="absolute top-full right-0 mt-2 bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 z-50 overflow-hidden animate-fade-in p-3 w-[280px] sm:w-[340px]">
           <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-            {languages.map((lang) => (
+            {UI_LANGUAGES.map((lang) => (
               <button
                 key={lang.code}
                 onClick={() => changeLanguage(lang.code)}
@@ -82,7 +63,7 @@ export default function LanguageSelector() {
                       ? 'text-blue-600 dark:text-blue-400'
                       : 'text-gray-700 dark:text-gray-300'
                   }`}>
-                    {lang.name}
+                    {lang.nativeName}
                   </span>
                 </div>
               </button>
@@ -1,5 +1,7 @@
+import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { AnalysisResult } from '../types'
+import { AnalysisResult, Source, SourceCluster } from '../types'
+import { getSummaryTranslation } from '../api/client'
 import ShareButton from './ShareButton'
 import GaugeChart from './GaugeChart'
 import PieChart from './PieChart'
@@ -11,11 +13,37 @@ interface ResultsDashboardProps {
 export default function ResultsDashboard({ result }: ResultsDashboardProps) {
   const { t, i18n } = useTranslation()
 
-  // Get translated summary based on current language
-  const currentLang = i18n.language as keyof typeof result.summaryTranslations
-  const displaySummary = (currentLang !== 'en' && result.summaryTranslations[currentLang])
-    ? result.summaryTranslations[currentLang]
-    : result.summary
+  // The summary is written in the language of the content (English for older analyses)
+  // and translated on demand into the interface language, keyed by analysis and language
+  const currentLang = i18n.language
+  const sourceLanguage = result.language || 'en'
+  const [translatedSummaries, setTranslatedSummaries] = useState<Record<string, string>>({})
+  const [translating, setTranslating] = useState(false)
+  const translationKey = `${result.id}:${currentLang}`
+  const storedTranslation = result.summaryTranslations[currentLang] || translatedSummaries[translationKey]
+  const needsTranslation = currentLang !== sourceLanguage && !storedTranslation
+
+  useEffect(() => {
+    if (!needsTranslation) return
+
+    let cancelled = false
+    setTranslating(true)
+    getSummaryTranslation(result.id, currentLang)
+      .then(translation => {
+        if (!cancelled) setTranslatedSummaries(previous => ({ ...previous, [translationKey]: translation.summary }))
+      })
+      // Keep showing the original summary when it cannot be translated
+      .catch(error => console.error('Summary translation failed:', error))
+      .finally(() => {
+        if (!cancelled) setTranslating(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [result.id, currentLang, needsTranslation, translationKey])
+
+  const displaySummary = currentLang !== sourceLanguage && storedTranslation ? storedTranslation : result.summary
 
   // Use neutral score from backend
   const neutralScore = result.neutralScore
@@ -47,71 +75,34 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
     }
   }
 
-  const getSourceName = (url: string): string => {
-    const domain = getDomainFromUrl(url)
-
-    // Special handling for Wikipedia
-    if (domain.includes('wikipedia.org')) {
-      return 'Wikipedia'
-    }
-
-    // Special handling for common sources
-    const sourceMap: { [key: string]: string } = {
-      'nytimes.com': 'The New York Times',
-      'washingtonpost.com': 'The Washington Post',
-      'theguardian.com': 'The Guardian',
-      'bbc.com': 'BBC',
-      'bbc.co.uk': 'BBC',
-      'cnn.com': 'CNN',
-      'reuters.com': 'Reuters',
-      'apnews.com': 'AP News',
-      'aljazeera.com': 'Al Jazeera',
-      'foxnews.com': 'Fox News',
-      'nbcnews.com': 'NBC News',
-      'abcnews.go.com': 'ABC News',
-      'cbsnews.com': 'CBS News',
-      'usatoday.com': 'USA Today',
-      'wsj.com': 'The Wall Street Journal',
-      'bloomberg.com': 'Bloomberg',
-      'ft.com': 'Financial Times',
-      'economist.com': 'The Economist',
-      'time.com': 'Time',
-      'newsweek.com': 'Newsweek',
-      'politico.com': 'Politico',
-      'huffpost.com': 'HuffPost',
-      'vox.com': 'Vox',
-      'buzzfeed.com': 'BuzzFeed',
-      'vice.com': 'Vice',
-      'slate.com': 'Slate',
-      'theatlantic.com': 'The Atlantic',
-      'newyorker.com': 'The New Yorker',
-      'npr.org': 'NPR',
-      'pbs.org': 'PBS',
-      'latimes.com': 'Los Angeles Times',
-      'chicagotribune.com': 'Chicago Tribune',
-      'sfgate.com': 'San Francisco Chronicle',
-      'nypost.com': 'New York Post',
-      'youtube.com': 'YouTube',
-      'twitter.com': 'Twitter/X',
-      'x.com': 'X (Twitter)',
-      'facebook.com': 'Facebook',
-      'instagram.com': 'Instagram',
-      'tiktok.com': 'TikTok',
-      'reddit.com': 'Reddit',
-      'medium.com': 'Medium',
-      'substack.com': 'Substack',
-    }
-
-    // Check if we have a special name for this domain
-    if (sourceMap[domain]) {
-      return sourceMap[domain]
+  // Outlet names come from the backend credibility registry
+  const getSourceName = (source: Source): string => {
+    if (source.outlet) {
+      return source.outlet.name
     }
 
     // Default: capitalize first part of domain
-    const firstPart = domain.split('.')[0]
+    const firstPart = getDomainFromUrl(source.url).split('.')[0]
     return firstPart.charAt(0).toUpperCase() + firstPart.slice(1)
   }
 
+  const getTierColor = (tier: number) => {
+    if (tier <= 2) return 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+    if (tier === 3) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300'
+    return 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+  }
+
+  // Calendar dates (YYYY-MM-DD) are shown as written, without shifting into the local time zone
+  const formatDay = (day: string): string =>
+    new Date(`${day}T00:00:00Z`).toLocaleDateString(undefined, { timeZone: 'UTC' })
+
+  const staleClaims = result.claims.filter(claim => claim.staleEvidence)
+
+  // Stories republished by several outlets, largest first (claims may share a cluster)
+  const clusters = [
+    ...new Map(result.claims.flatMap(claim => claim.clusters || []).map(cluster => [cluster.id, cluster])).values(),
+  ].sort((a: SourceCluster, b: SourceCluster) => b.urls.length - a.urls.length)
+
   const getFaviconUrl = (url: string): string => {
     const domain = getDomainFromUrl(url)
     // Using DuckDuckGo's favicon service (reliable and fast)
@@ -130,13 +121,57 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
         <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mb-3">
           {t('results.percentagesFrom', { count: totalSources })}
         </p>
+        {result.dateRange && (
+          <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mb-3">
+            🗓️ {result.dateRange.from && result.dateRange.to
+              ? t('results.dateRange.between', { from: formatDay(result.dateRange.from), to: formatDay(result.dateRange.to) })
+              : result.dateRange.from
+                ? t('results.dateRange.since', { from: formatDay(result.dateRange.from) })
+                : t('results.dateRange.until', { to: formatDay(result.dateRange.to!) })}
+          </p>
+        )}
         {result.cached && (
           <span className="inline-block px-3 py-1 text-xs sm:text-sm bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 rounded-full animate-fade-in">
             ⚡ {t('results.cached')}
           </span>
         )}
+        {result.cacheMatch && (
+          <p className="mt-3 text-xs sm:text-sm text-gray-600 dark:text-gray-400 animate-fade-in">
+            {t('results.similarMatch', { similarity: Math.round(result.cacheMatch.similarity * 100) })}
+            <span className="block mt-1 italic text-gray-700 dark:text-gray-300">“{result.cacheMatch.contentText}”</span>
+          </p>
+        )}
       </div>
 
+      {/* Article the content was fetched from */}
+      {result.origin && (
+        <div className="mb-6 sm:mb-8 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-700 animate-fade-in">
+          <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-1">
+            {t('results.origin.title')}
+          </p>
+          <a
+            href={result.origin.finalUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-base sm:text-lg font-semibold text-blue-600 dark:text-blue-400 hover:underline break-words"
+          >
+            {result.origin.title || result.origin.finalUrl}
+          </a>
+          <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {[
+              result.origin.siteName || getDomainFromUrl(result.origin.finalUrl),
+              result.origin.author && t('results.origin.by', { author: result.origin.author }),
+              result.origin.publishedDate && t('results.origin.published', { date: new Date(result.origin.publishedDate).toLocaleDateString() }),
+            ].filter(Boolean).join(' · ')}
+          </p>
+          {result.origin.truncated && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400 mt-2">
+              {t('results.origin.truncated')}
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Visualizations */}
       <div className="mb-6 sm:mb-8">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
@@ -176,14 +211,148 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
         <p className="text-sm sm:text-base text-gray-700 dark:text-gray-300 leading-relaxed bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg">
           {displaySummary}
         </p>
+        {translating && needsTranslation && (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">{t('results.summary.translating')}</p>
+        )}
       </div>
 
+      {/* Provider failures the result was built around */}
+      {result.partial && (
+        <div className="mb-6 sm:mb-8 p-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg animate-fade-in" role="alert">
+          <p className="text-sm font-medium text-orange-800 dark:text-orange-300">
+            ⚠️ {result.warnings?.every(warning => warning.code === 'budget_downgraded')
+              ? t('results.partial.downgraded')
+              : t('results.partial.banner')}
+          </p>
+          {result.warnings && result.warnings.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs text-orange-700 dark:text-orange-400">
+              {result.warnings.map((warning, index) => (
+                <li key={index}>
+                  {warning.claim && (warning.code === 'claim_failed' || result.claims.length > 1) && <span className="font-medium">{warning.claim}: </span>}
+                  {t(`results.partial.warnings.${warning.code}`, { count: warning.count })}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Evidence published before the events it is meant to confirm */}
+      {staleClaims.length > 0 && (
+        <div className="mb-6 sm:mb-8 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg animate-fade-in" role="alert">
+          <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300">
+            ⚠️ {t('results.staleEvidence.banner')}
+          </p>
+          <ul className="mt-2 space-y-1 text-xs text-yellow-700 dark:text-yellow-400">
+            {staleClaims.map((claim, index) => (
+              <li key={index}>
+                {result.claims.length > 1 && <span className="font-medium">{claim.claim}: </span>}
+                {t('results.staleEvidence.detail', {
+                  predating: claim.staleEvidence!.predating,
+                  dated: claim.staleEvidence!.dated,
+                  date: formatDay(claim.staleEvidence!.eventDate),
+                })}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Claims */}
+      {result.claims && result.claims.length > 1 && (
+        <div className="mb-6 sm:mb-8 animate-fade-in" style={{ animationDelay: '0.45s' }}>
+          <h3 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white mb-1">{t('results.claims.title')}</h3>
+          <p className="text-xs sm:text-sm text-gray-600 dark:text-gray-400 mb-3">
+            {t('results.claims.description', { count: result.claims.length })}
+          </p>
+          <div className="space-y-3">
+            {result.claims.map((claim, index) => (
+              <div
+                key={index}
+                className="border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-700/50 rounded-xl p-3 sm:p-4"
+              >
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <p className="text-sm sm:text-base font-medium text-gray-900 dark:text-white">
+                    {claim.claim}
+                  </p>
+                  <span className={`${getScoreBgColor(claim.accuracyScore)} ${getScoreColor(claim.accuracyScore)} px-2 py-1 rounded-full text-xs font-semibold whitespace-nowrap`}>
+                    {claim.accuracyScore}/100
+                  </span>
+                </div>
+                <p className="text-xs sm:text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
+                  {claim.summary || <span className="italic text-gray-500 dark:text-gray-400">{t('results.partial.summaryUnavailable')}</span>}
+                </p>
+                <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                  <span className="text-green-700 dark:text-green-400">{t('results.agreement.label')}: {claim.agreementScore}%</span>
+                  <span className="text-red-700 dark:text-red-400">{t('results.disagreement.label')}: {claim.disagreementScore}%</span>
+                  <span className="text-gray-600 dark:text-gray-400">{t('results.neutral.label')}: {claim.neutralScore}%</span>
+                  <span className="text-gray-400 dark:text-gray-500">{t('results.claims.sourcesAnalyzed', { count: claim.totalSourcesRetrieved })}</span>
+                  {claim.independentReports !== undefined && (
+                    <span className="text-gray-400 dark:text-gray-500">{t('results.claims.independentReports', { count: claim.independentReports })}</span>
+                  )}
+                  {claim.timeSensitive && (
+                    <span className="text-blue-700 dark:text-blue-400" title={t('results.claims.timeSensitiveHint')}>
+                      {t('results.claims.timeSensitive')}
+                    </span>
+                  )}
+                </div>
+                {claim.sources.length > 0 && (
+                  <ul className="mt-2 space-y-1">
+                    {claim.sources.slice(0, 3).map((source, sourceIndex) => (
+                      <li key={sourceIndex} className="flex items-center gap-2 min-w-0">
+                        <span className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                          source.relevance === 'supporting'
+                            ? 'bg-green-600'
+                            : source.relevance === 'contradicting' ? 'bg-red-600' : 'bg-gray-600'
+                        }`}></span>
+                        <a
+                          href={source.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline truncate"
+                        >
+                          {getSourceName(source)}: {source.title}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Sources */}
       <div className="animate-fade-in" style={{ animationDelay: '0.5s' }}>
         <h3 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white mb-6">
           {t('results.sources.title')}
         </h3>
 
+        {clusters.length > 0 && (
+          <div className="mb-6 p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-700">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{t('results.sources.syndicated.title')}</p>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mb-2">{t('results.sources.syndicated.description')}</p>
+            <ul className="space-y-1">
+              {clusters.map(cluster => (
+                <li key={cluster.id} className="flex items-center gap-2 min-w-0 text-xs">
+                  <span className="px-2 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300 whitespace-nowrap">
+                    {t('results.sources.syndicated.summary', { outlets: cluster.urls.length })}
+                  </span>
+                  <a
+                    href={cluster.originalUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 dark:text-blue-400 hover:underline truncate"
+                  >
+                    {cluster.originalTitle}
+                  </a>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {(() => {
           const supportingSources = result.sources.filter(s => s.relevance === 'supporting')
           const contradictingSources = result.sources.filter(s => s.relevance === 'contradicting')
@@ -198,7 +367,7 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
                 {/* Favicon */}
                 <img
                   src={getFaviconUrl(source.url)}
-                  alt={getSourceName(source.url)}
+                  alt={getSourceName(source)}
                   className="w-4 h-4 sm:w-5 sm:h-5 mt-0.5 flex-shrink-0"
                   onError={(e) => {
                     e.currentTarget.src = 'data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="%23666"><path d="M12 2C6.48 2 2 6.48 2 12s4.48 10 10 10 10-4.48 10-10S17.52 2 12 2zm-2 15l-5-5 1.41-1.41L10 14.17l7.59-7.59L19 8l-9 9z"/></svg>'
@@ -208,8 +377,28 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center gap-2 mb-2 flex-wrap">
                     <span className="text-xs sm:text-sm font-semibold text-gray-700 dark:text-gray-200">
-                      {getSourceName(source.url)}
+                      {getSourceName(source)}
                     </span>
+                    {source.outlet && (
+                      <>
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 dark:bg-gray-600 text-gray-700 dark:text-gray-200">
+                          {t(`results.sources.outletTypes.${source.outlet.type}`)}
+                        </span>
+                        <span
+                          className={`px-2 py-0.5 text-xs rounded-full ${getTierColor(source.outlet.reliabilityTier)}`}
+                          title={t('results.sources.tierHint')}
+                        >
+                          {t('results.sources.tier', { tier: source.outlet.reliabilityTier })}
+                        </span>
+                      </>
+                    )}
+                    {source.cluster && source.cluster.size > 1 && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300">
+                        {source.cluster.original
+                          ? t('results.sources.cluster.original', { count: source.cluster.size - 1 })
+                          : t('results.sources.cluster.copy', { count: source.cluster.size })}
+                      </span>
+                    )}
                   </div>
 
                   <a
@@ -223,6 +412,7 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
 
                   <p className="text-xs text-gray-400 dark:text-gray-500 mt-2 truncate">
                     {getDomainFromUrl(source.url)}
+                    {source.publishedDate && ` · ${new Date(source.publishedDate).toLocaleDateString()}`}
                   </p>
                 </div>
               </div>
@@ -289,6 +479,9 @@ export default function ResultsDashboard({ result }: ResultsDashboardProps) {
       {/* Timestamp */}
       <div className="mt-6 sm:mt-8 text-xs sm:text-sm text-gray-500 dark:text-gray-400 text-right rtl:text-left animate-fade-in" style={{ animationDelay: '0.7s' }}>
         {t('results.analyzedAt', { date: new Date(result.analyzedAt).toLocaleString() })}
+        {result.algorithmVersion && (
+          <div className="mt-1">{t('results.algorithmVersion', { version: result.algorithmVersion })}</div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react'
+import { User } from '../types'
+import * as api from '../api/client'
+
+export function useAccount() {
+  const [user, setUser] = useState<User | null>(null)
+
+  // Restore the session saved by an earlier visit
+  useEffect(() => {
+    api.getCurrentUser()
+      .then(setUser)
+      .catch((error) => console.error('Error loading account:', error))
+  }, [])
+
+  const login = async (email: string, password: string) => {
+    setUser(await api.login(email, password))
+  }
+
+  const register = async (email: string, password: string) => {
+    setUser(await api.register(email, password))
+  }
+
+  const logout = async () => {
+    try {
+      await api.logout()
+    } catch (error) {
+      console.error('Error logging out:', error)
+    }
+    setUser(null)
+  }
+
+  return {
+    user,
+    login,
+    register,
+    logout,
+  }
+}
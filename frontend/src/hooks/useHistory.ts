@@ -1,8 +1,12 @@
 import { useState, useEffect } from 'react'
-import { AnalysisResult } from '../types'
+import { AnalysisResult, HistoryEntry, User } from '../types'
+import { clearServerHistory, deleteHistoryItem, getHistory, importHistory } from '../api/client'
+import { clearStoredResults, deleteStoredResult, saveResult } from '../storage/resultStore'
 
 const HISTORY_KEY = 'truthmeter_history'
 const MAX_HISTORY_ITEMS = 20
+// Items fetched per page of a logged-in user's history
+const PAGE_SIZE = 20
 
 export interface HistoryItem {
   id: string
@@ -12,29 +16,99 @@ export interface HistoryItem {
   preview: string // First 100 chars of content
 }
 
-export function useHistory() {
+function toHistoryItem(entry: HistoryEntry): HistoryItem {
+  return {
+    id: entry.analysisId,
+    contentText: entry.contentText,
+    accuracyScore: entry.accuracyScore,
+    analyzedAt: entry.analyzedAt,
+    preview: entry.contentText.substring(0, 100) + (entry.contentText.length > 100 ? '...' : ''),
+  }
+}
+
+function loadLocalHistory(): HistoryItem[] {
+  try {
+    const stored = localStorage.getItem(HISTORY_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch (error) {
+    console.error('Error loading history:', error)
+    return []
+  }
+}
+
+/**
+ * History of analyses, kept in localStorage or, for a logged-in user, on the server
+ * On login, the local history is merged into the account and removed from the browser
+ */
+export function useHistory(user: User | null) {
   const [history, setHistory] = useState<HistoryItem[]>([])
+  const [total, setTotal] = useState(0)
 
-  // Load history from localStorage on mount
   useEffect(() => {
-    try {
-      const stored = localStorage.getItem(HISTORY_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        setHistory(parsed)
+    if (!user) {
+      setHistory(loadLocalHistory())
+      return
+    }
+
+    let cancelled = false
+    const sync = async () => {
+      const local = loadLocalHistory()
+      if (local.length > 0) {
+        await importHistory(local.map((item) => ({
+          analysisId: item.id,
+          contentText: item.contentText,
+          accuracyScore: item.accuracyScore,
+          analyzedAt: item.analyzedAt,
+        })))
+        localStorage.removeItem(HISTORY_KEY)
+      }
+
+      const page = await getHistory(PAGE_SIZE, 0)
+      if (!cancelled) {
+        setHistory(page.items.map(toHistoryItem))
+        setTotal(page.total)
       }
+    }
+    sync().catch((error) => console.error('Error syncing history:', error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [user?.id])
+
+  const loadMore = async () => {
+    try {
+      const page = await getHistory(PAGE_SIZE, history.length)
+      setHistory((prev) => [
+        ...prev,
+        ...page.items.map(toHistoryItem).filter((item) => !prev.some((loaded) => loaded.id === item.id)),
+      ])
+      setTotal(page.total)
     } catch (error) {
       console.error('Error loading history:', error)
     }
-  }, [])
+  }
 
   const addToHistory = (result: AnalysisResult) => {
-    const historyItem: HistoryItem = {
-      id: result.id,
+    const historyItem = toHistoryItem({
+      analysisId: result.id,
       contentText: result.contentText,
       accuracyScore: result.accuracyScore,
       analyzedAt: result.analyzedAt,
-      preview: result.contentText.substring(0, 100) + (result.contentText.length > 100 ? '...' : ''),
+    })
+
+    // Keep the full result so the item can be opened again without re-running it
+    saveResult(result).catch((error) => console.error('Error storing result:', error))
+
+    // The server adds analyses to a logged-in user's history itself
+    if (user) {
+      const isKnown = history.some((item) => item.contentText.toLowerCase() === result.contentText.toLowerCase())
+      setHistory((prev) => [
+        { ...historyItem, analyzedAt: new Date().toISOString() },
+        ...prev.filter((item) => item.contentText.toLowerCase() !== result.contentText.toLowerCase()),
+      ])
+      if (!isKnown) setTotal((prev) => prev + 1)
+      return
     }
 
     setHistory((prev) => {
@@ -60,25 +134,52 @@ export function useHistory() {
     })
   }
 
-  const clearHistory = () => {
+  const clearHistory = async () => {
+    if (user) {
+      try {
+        await clearServerHistory()
+      } catch (error) {
+        console.error('Error clearing history:', error)
+        return
+      }
+      setTotal(0)
+    }
     setHistory([])
     localStorage.removeItem(HISTORY_KEY)
+    clearStoredResults().catch((error) => console.error('Error clearing stored results:', error))
   }
 
-  const removeItem = (id: string) => {
-    setHistory((prev) => {
-      const updated = prev.filter((item) => item.id !== id)
+  const removeItem = async (id: string) => {
+    if (user) {
       try {
-        localStorage.setItem(HISTORY_KEY, JSON.stringify(updated))
+        await deleteHistoryItem(id)
       } catch (error) {
-        console.error('Error updating history:', error)
+        console.error('Error removing history item:', error)
+        return
       }
-      return updated
-    })
+      setHistory((prev) => prev.filter((item) => item.id !== id))
+      setTotal((prev) => prev - 1)
+    } else {
+      setHistory((prev) => {
+        const updated = prev.filter((item) => item.id !== id)
+        try {
+          localStorage.setItem(HISTORY_KEY, JSON.stringify(updated))
+        } catch (error) {
+          console.error('Error updating history:', error)
+        }
+        return updated
+      })
+    }
+
+    deleteStoredResult(id).catch((error) => console.error('Error removing stored result:', error))
   }
 
   return {
     history,
+    // All items, including pages not loaded yet
+    total: user ? total : history.length,
+    hasMore: !!user && history.length < total,
+    loadMore,
     addToHistory,
     clearHistory,
     removeItem,
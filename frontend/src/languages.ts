@@ -0,0 +1,29 @@
+import registry from '../../shared/languages.json'
+
+// One registry for the backend and the frontend: adding a locale is a change to shared/languages.json
+// plus its file in src/locales, checked by `npm run check:locales`
+export interface LanguageInfo {
+  code: string
+  name: string
+  nativeName: string
+  flag: string
+  direction: 'ltr' | 'rtl'
+  searchRegion: string | null
+  locale: boolean
+  translation: boolean
+}
+
+export const DEFAULT_LANGUAGE: string = registry.defaultLanguage
+export const LANGUAGES = registry.languages as LanguageInfo[]
+
+// Languages the interface is available in
+export const UI_LANGUAGES = LANGUAGES.filter(language => language.locale)
+
+export function getUiLanguage(code: string): LanguageInfo {
+  return UI_LANGUAGES.find(language => language.code === code)
+    || UI_LANGUAGES.find(language => language.code === DEFAULT_LANGUAGE)!
+}
+
+export function isRtl(code: string): boolean {
+  return LANGUAGES.some(language => language.code === code && language.direction === 'rtl')
+}
@@ -0,0 +1,89 @@
+import { AnalysisResult } from '../types'
+
+/**
+ * Full analysis results kept in IndexedDB, so history items open offline and
+ * after the backend has expired them
+ */
+
+const DB_NAME = 'truthmeter'
+const DB_VERSION = 1
+const STORE = 'results'
+// Oldest results are dropped beyond this many
+const MAX_STORED_RESULTS = 200
+
+interface StoredResult {
+  id: string
+  result: AnalysisResult
+  savedAt: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' })
+        store.createIndex('savedAt', 'savedAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+/**
+ * Run fn in a transaction on the results store and wait for the transaction to finish
+ */
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDatabase()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode)
+    const request = fn(transaction.objectStore(STORE))
+    transaction.oncomplete = () => resolve(request ? request.result : undefined)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export async function saveResult(result: AnalysisResult): Promise<void> {
+  await withStore('readwrite', (store) => {
+    store.put({ id: result.id, result, savedAt: Date.now() } as StoredResult)
+
+    // Drop the oldest results once the store is over its limit
+    const countRequest = store.count()
+    countRequest.onsuccess = () => {
+      let excess = countRequest.result - MAX_STORED_RESULTS
+      if (excess <= 0) return
+      const cursorRequest = store.index('savedAt').openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (!cursor || excess <= 0) return
+        cursor.delete()
+        excess--
+        cursor.continue()
+      }
+    }
+  })
+}
+
+/**
+ * The stored result of an analysis, or null when this browser does not have it
+ */
+export async function getStoredResult(id: string): Promise<AnalysisResult | null> {
+  const stored = await withStore<StoredResult | undefined>('readonly', (store) => store.get(id))
+  return stored ? stored.result : null
+}
+
+export async function deleteStoredResult(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+export async function clearStoredResults(): Promise<void> {
+  await withStore('readwrite', (store) => store.clear())
+}
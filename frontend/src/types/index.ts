@@ -6,33 +6,201 @@ export interface AnalysisResult {
   disagreementScore: number;
   neutralScore: number;
   summary: string;
+  // Translations made up front by older versions; new ones come from GET /analyses/:id/translations/:lang
   summaryTranslations: {
-    ar?: string;
-    fr?: string;
-    tr?: string;
-    fa?: string;
-    ur?: string;
-    hi?: string;
-    es?: string;
-    de?: string;
-    pt?: string;
-    ja?: string;
-    zh?: string;
-    it?: string;
-    sv?: string;
+    [language: string]: string;
   };
   sources: Source[];
   totalSourcesRetrieved: number;
+  claims: ClaimResult[];
+  algorithmVersion: string;
+  // ISO 639-1 code of the analyzed content; the summary is written in this language
+  language?: string;
+  origin?: ContentOrigin;
+  // Evidence was limited to sources published in this range
+  dateRange?: DateRange;
+  // Some provider calls failed; the result is built from what succeeded
+  partial?: boolean;
+  warnings?: AnalysisWarning[];
+  // Provider calls the analysis made, and what they cost
+  usage?: AnalysisUsage;
   analyzedAt: string;
   cached: boolean;
+  // Set when an earlier analysis of a similar text was served instead of a new one
+  cacheMatch?: CacheMatch;
+}
+
+export interface CacheMatch {
+  analysisId: string;
+  contentText: string;
+  // 0-1
+  similarity: number;
+}
+
+export type AnalysisWarningCode = 'claim_failed' | 'sources_skipped' | 'summary_unavailable' | 'budget_downgraded';
+
+export interface AnalysisUsage {
+  llmCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  searchCalls: number;
+  searchCredits: number;
+  costUsd: number;
+  providerLatencyMs: number;
+  durationMs: number;
+}
+
+// Something left out of a partial result
+export interface AnalysisWarning {
+  code: AnalysisWarningCode;
+  message: string;
+  // The claim the warning is about, when it is about one
+  claim?: string;
+  // Number of sources left out (sources_skipped)
+  count?: number;
+}
+
+// A summary translated on demand by the backend
+export interface User {
+  id: string;
+  email: string;
+  createdAt: string;
+}
+
+export interface Session {
+  token: string;
+  expiresAt: string;
+  user: User;
+}
+
+// An analysis in the history of a logged-in user
+export interface HistoryEntry {
+  analysisId: string;
+  contentText: string;
+  accuracyScore: number;
+  analyzedAt: string;
+}
+
+export interface HistoryPage {
+  items: HistoryEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export interface SummaryTranslation {
+  analysisId: string;
+  language: string;
+  summary: string;
+  cached: boolean;
+}
+
+// Where the analyzed content came from, when it was fetched from a URL
+export interface ContentOrigin {
+  type: 'url';
+  url: string;
+  finalUrl: string;
+  title?: string;
+  author?: string;
+  publishedDate?: string;
+  siteName?: string;
+  truncated: boolean;
+  fetchedAt: string;
+}
+
+export interface ClaimResult {
+  claim: string;
+  accuracyScore: number;
+  agreementScore: number;
+  disagreementScore: number;
+  neutralScore: number;
+  summary: string;
+  sources: Source[];
+  totalSourcesRetrieved: number;
+  // Claims about recent or ongoing events, whose evidence loses weight faster with age
+  timeSensitive?: boolean;
+  // Date of the event the claim describes (YYYY-MM-DD), when known
+  eventDate?: string;
+  staleEvidence?: StaleEvidenceWarning;
+  // Retrieved sources after grouping republished copies of the same report
+  independentReports?: number;
+  // Groups of two or more sources carrying the same report
+  clusters?: SourceCluster[];
+}
+
+// Sources that republish the same report, such as one wire story printed by many outlets
+export interface SourceCluster {
+  id: string;
+  // Earliest published member, taken as the original report
+  originalUrl: string;
+  originalTitle: string;
+  urls: string[];
+}
+
+// Most dated evidence for a claim was published before the event it describes
+export interface StaleEvidenceWarning {
+  eventDate: string;
+  predating: number;
+  dated: number;
 }
 
 export interface Source {
   url: string;
   title: string;
   relevance: 'supporting' | 'contradicting' | 'neutral';
+  // ISO 8601, when the search provider reports one
+  publishedDate?: string;
+  outlet?: Outlet;
+  cluster?: {
+    id: string;
+    size: number;
+    original: boolean;
+  };
+}
+
+export type OutletType =
+  | 'wire'
+  | 'news'
+  | 'academic'
+  | 'government'
+  | 'reference'
+  | 'fact-checker'
+  | 'tabloid'
+  | 'social'
+  | 'blog'
+  | 'satire';
+
+export interface Outlet {
+  name: string;
+  type: OutletType;
+  // 1 (most reliable) to 5 (least reliable)
+  reliabilityTier: number;
 }
 
 export interface AnalysisRequest {
-  contentText: string;
+  // Either contentText or url
+  contentText?: string;
+  url?: string;
+  dateRange?: DateRange;
+  // Skip the cache and run a new analysis
+  forceRefresh?: boolean;
 }
+
+// Inclusive range of publish dates (YYYY-MM-DD); either end may be open
+export interface DateRange {
+  from?: string;
+  to?: string;
+}
+
+// Stage events streamed by POST /analyze/stream while an analysis runs
+export type AnalysisProgressEvent =
+  | { stage: 'fetching'; url: string }
+  | { stage: 'article_fetched'; title?: string; characters: number }
+  | { stage: 'cached' }
+  | { stage: 'claims_extracted'; claims: string[] }
+  | { stage: 'searching'; claimIndex: number; claim: string }
+  | { stage: 'sources_found'; claimIndex: number; count: number }
+  | { stage: 'evidence_retrieved'; claimIndex: number; pages: number }
+  | { stage: 'batch_categorized'; claimIndex: number; batch: number; totalBatches: number; sources: Source[] }
+  | { stage: 'claim_scored'; claimIndex: number; accuracyScore: number }
+  | { stage: 'summary_ready'; summary: string };
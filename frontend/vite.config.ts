@@ -5,6 +5,10 @@ export default defineConfig({
   plugins: [react()],
   server: {
     port: 5173,
+    fs: {
+      // Paths are relative to the project root; the language registry in ../shared is shared with the backend
+      allow: ['.', '../shared'],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:3001',